@@ -0,0 +1,6 @@
+pragma circom 2.1.9;
+
+include "../components.circom";
+
+// known-answer test harness for the ElGamal encryption of a value, only used in the tests
+component main = CheckReceiverValue();
@@ -0,0 +1,111 @@
+// (c) 2025, Ava Labs, Inc. All rights reserved.
+// See the file LICENSE for licensing terms.
+
+// SPDX-License-Identifier: Ecosystem
+
+pragma solidity 0.8.27;
+
+import {EncryptedUserBalances} from "../EncryptedUserBalances.sol";
+import {BabyJubJub} from "../libraries/BabyJubJub.sol";
+import {Point, EGCT} from "../types/Types.sol";
+
+/**
+ * @title BabyJubJubHarness
+ * @notice Exposes the BabyJubJub library and the balance history to the tests
+ * @dev Only used in the tests, it is not part of the protocol
+ */
+contract BabyJubJubHarness is EncryptedUserBalances {
+    /**
+     * @param user address of the user
+     * @param eGCT encrypted amount to add to the standalone balance
+     * @param amountPCT amount PCT for the history
+     */
+    function addToUserBalance(
+        address user,
+        EGCT memory eGCT,
+        uint256[7] memory amountPCT
+    ) external {
+        _addToUserBalance(user, 0, eGCT, amountPCT);
+    }
+
+    /**
+     * @param user address of the user
+     * @param eGCT encrypted amount to subtract from the standalone balance
+     * @param balancePCT new balance PCT
+     * @param transactionIndex transaction index of the balance the amount is subtracted from
+     */
+    function subtractFromUserBalance(
+        address user,
+        EGCT memory eGCT,
+        uint256[7] memory balancePCT,
+        uint256 transactionIndex
+    ) external {
+        _subtractFromUserBalance(user, 0, eGCT, balancePCT, transactionIndex);
+    }
+
+    /**
+     * @param point1 first point
+     * @param point2 second point
+     * @return point1 + point2
+     */
+    function add(
+        Point memory point1,
+        Point memory point2
+    ) external view returns (Point memory) {
+        return BabyJubJub._add(point1, point2);
+    }
+
+    /**
+     * @param point point to multiply
+     * @param scalar scalar value
+     * @return point * scalar
+     */
+    function scalarMultiply(
+        Point memory point,
+        uint256 scalar
+    ) external view returns (Point memory) {
+        return BabyJubJub.scalarMultiply(point, scalar);
+    }
+
+    /**
+     * @notice ElGamal encryption with an explicit randomness, BabyJubJub.encrypt always uses 1
+     * @param publicKey public key to encrypt for
+     * @param message message in scalar form
+     * @param random randomness of the encryption
+     * @return encrypted message
+     */
+    function encrypt(
+        Point memory publicKey,
+        uint256 message,
+        uint256 random
+    ) external view returns (EGCT memory) {
+        Point memory b8 = BabyJubJub.base8();
+
+        Point memory c1 = BabyJubJub.scalarMultiply(b8, random);
+        Point memory pkr = BabyJubJub.scalarMultiply(publicKey, random);
+        Point memory pMsg = BabyJubJub.scalarMultiply(b8, message);
+
+        return EGCT({c1: c1, c2: BabyJubJub._add(pkr, pMsg)});
+    }
+
+    /**
+     * @param user address of the user
+     * @param balanceHash hash of the encrypted balance
+     * @return isValid true if a proof against the balance would be accepted
+     * @return index transaction index of the balance
+     */
+    function isBalanceValid(
+        address user,
+        uint256 balanceHash
+    ) external view returns (bool isValid, uint256 index) {
+        return _isBalanceValid(user, 0, balanceHash);
+    }
+
+    /**
+     * @param eGCT ElGamal ciphertext to hash
+     * @return hash of the ciphertext, as used for the balance history
+     */
+    function hashEGCT(EGCT memory eGCT) external pure returns (uint256) {
+        return _hashEGCT(eGCT);
+    }
+}
@@ -0,0 +1,27 @@
+// (c) 2025, Ava Labs, Inc. All rights reserved.
+// See the file LICENSE for licensing terms.
+
+// SPDX-License-Identifier: Ecosystem
+
+pragma solidity 0.8.27;
+
+import {EncryptedMetadata} from "../metadata/EncryptedMetadata.sol";
+
+/**
+ * @title EncryptedMetadataHarness
+ * @notice Emits PrivateMessage events without the registration checks
+ * @dev Used by the metadata compression benchmark to measure gas and by the Inbox and Chunked tests
+ * to emit messages without registering users, it is not part of the protocol
+ */
+contract EncryptedMetadataHarness is EncryptedMetadata {
+    /**
+     * @param to address of the receiver
+     * @param message encrypted message
+     */
+    function sendEncryptedMetadata(
+        address to,
+        bytes calldata message
+    ) external {
+        _sendEncryptedMetadata(to, message);
+    }
+}
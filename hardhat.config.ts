@@ -48,7 +48,8 @@ const config: HardhatUserConfig = {
     compilationSettings: {
       artifactsDir: "zkit/artifacts",
       onlyFiles: [],
-      skipFiles: [],
+      // known-answer test harnesses are only compiled on request, see "Run Tests/Coverage" in the README
+      skipFiles: process.env.ZKIT_MOCKS ? [] : ["mocks"],
       c: false,
       json: false,
       optimization: "O2",
@@ -59,7 +60,8 @@ const config: HardhatUserConfig = {
         contributions: 0,
       },
       onlyFiles: [],
-      skipFiles: [],
+      // known-answer test harnesses only need witnesses, no keys or verifiers
+      skipFiles: ["mocks"],
       ptauDir: undefined,
       ptauDownload: true,
     },
@@ -0,0 +1,142 @@
+import { getBytes } from "ethers";
+import { ethers } from "hardhat";
+import {
+	type MetadataCompressor,
+	type MetadataEnvelope,
+	createSeededRandomSource,
+	deriveKeyFromSignature,
+	encodeEnvelope,
+	encryptEnvelope,
+} from "../src";
+import { brotliCompressor, deflateCompressor } from "../src/node";
+
+// gas of one PrivateMessage for typical payment memos, sent uncompressed, with deflate and with brotli
+// the seed is fixed so the ciphertexts, and with them the calldata gas, are the same on every run
+const SEED = 2025n;
+
+const lineItem = (i: number) => ({
+	sku: `SKU-${1000 + i}`,
+	description: `Consulting services, week ${i + 1}`,
+	quantity: 40,
+	unitPrice: "125.00",
+	currency: "USD",
+});
+
+const MEMOS: Record<string, MetadataEnvelope> = {
+	"payment reference": {
+		content: {
+			type: "json",
+			value: {
+				type: "payment",
+				reference: "RF18539007547034",
+				amount: "100.00",
+			},
+		},
+	},
+	invoice: {
+		content: {
+			type: "json",
+			value: {
+				type: "invoice",
+				invoiceId: "INV-2025-001",
+				issuer: "Acme Corp",
+				recipient: "Globex Inc",
+				dueDate: "2025-04-30",
+				amount: "5000.00",
+				currency: "USD",
+				lineItems: [0, 1].map(lineItem),
+			},
+		},
+		memo: "march",
+	},
+	"invoice, 10 items": {
+		content: {
+			type: "json",
+			value: {
+				type: "invoice",
+				invoiceId: "INV-2025-002",
+				issuer: "Acme Corp",
+				recipient: "Globex Inc",
+				dueDate: "2025-05-31",
+				amount: "50000.00",
+				currency: "USD",
+				lineItems: Array.from({ length: 10 }, (_, i) => lineItem(i)),
+			},
+		},
+		memo: "april",
+	},
+	payroll: {
+		content: {
+			type: "json",
+			value: {
+				type: "payroll",
+				period: "2025-03",
+				payments: Array.from({ length: 8 }, (_, i) => ({
+					employeeId: `EMP-${String(i).padStart(4, "0")}`,
+					gross: "6000.00",
+					tax: "1500.00",
+					net: "4500.00",
+					currency: "USD",
+				})),
+			},
+		},
+	},
+};
+
+const COMPRESSORS: Record<string, MetadataCompressor | undefined> = {
+	none: undefined,
+	deflate: deflateCompressor,
+	brotli: brotliCompressor,
+};
+
+const main = async () => {
+	const [sender, receiver] = await ethers.getSigners();
+	const { publicKey } = deriveKeyFromSignature(
+		await receiver.signMessage("eERC metadata benchmark"),
+	);
+
+	const factory = await ethers.getContractFactory("EncryptedMetadataHarness");
+	const harness = await factory.connect(sender).deploy();
+	await harness.waitForDeployment();
+
+	const rows = [];
+	for (const [name, envelope] of Object.entries(MEMOS)) {
+		const row: Record<string, string | number> = {
+			memo: name,
+			"envelope bytes": encodeEnvelope(envelope).length,
+		};
+
+		let baseline = 0n;
+		for (const [algorithm, compressor] of Object.entries(COMPRESSORS)) {
+			const message = encryptEnvelope(
+				publicKey,
+				envelope,
+				createSeededRandomSource(SEED),
+				false,
+				compressor,
+			);
+			const tx = await harness.sendEncryptedMetadata(receiver.address, message);
+			const receipt = await tx.wait();
+			const gasUsed = receipt?.gasUsed ?? 0n;
+
+			if (compressor === undefined) {
+				baseline = gasUsed;
+			}
+			row[`${algorithm} bytes`] = getBytes(message).length;
+			row[`${algorithm} gas`] = Number(gasUsed);
+			if (compressor !== undefined) {
+				const saved = baseline - gasUsed;
+				row[`${algorithm} saved`] =
+					`${saved} (${((Number(saved) * 100) / Number(baseline)).toFixed(1)}%)`;
+			}
+		}
+		rows.push(row);
+	}
+
+	console.table(rows);
+};
+
+main().catch((error) => {
+	console.error(error);
+	process.exitCode = 1;
+});
@@ -0,0 +1,16 @@
+import { writeBabyStepTable } from "../src/node";
+
+// 2^20 baby steps cover amounts up to 2^40 with at most 2^20 giant steps
+const BABY_STEPS = Number(process.env.BABY_STEPS ?? 2 ** 20);
+const OUTPUT = process.env.OUTPUT ?? "dlog-table.bin";
+
+const main = async () => {
+	console.log(`Generating ${BABY_STEPS} baby steps...`);
+	writeBabyStepTable(OUTPUT, BABY_STEPS);
+	console.log(`Baby-step table written to ${OUTPUT}`);
+};
+
+main().catch((error) => {
+	console.error(error);
+	process.exitCode = 1;
+});
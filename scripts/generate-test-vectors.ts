@@ -0,0 +1,124 @@
+import { writeFileSync } from "node:fs";
+import { Wallet, hexlify } from "ethers";
+import { poseidon3 } from "poseidon-lite";
+import {
+	createSeededRandomSource,
+	deriveKeyFromSignature,
+	encryptMessage,
+	getKeyDerivationMessage,
+	hashEGCT,
+	processPoseidonEncryption,
+} from "../src";
+
+// the seeds are fixed, so regenerating the vectors must not change the file
+const OUTPUT = process.env.OUTPUT ?? "test/vectors/known-answers.json";
+const CHAIN_IDS = [43114n, 43113n, 31337n];
+const REGISTRAR = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+const CASES = 4;
+
+// bigints are written as decimal strings
+const stringify = (value: unknown) =>
+	JSON.stringify(
+		value,
+		(_, v) => (typeof v === "bigint" ? v.toString() : v),
+		"\t",
+	);
+
+const main = async () => {
+	const keyDerivation = [];
+	for (let i = 0; i < CASES; i++) {
+		const rng = createSeededRandomSource(BigInt(i));
+		const wallet = new Wallet(hexlify(rng.randomBytes(32)));
+		const chainId = CHAIN_IDS[i % CHAIN_IDS.length];
+
+		const signature = await wallet.signMessage(
+			getKeyDerivationMessage(chainId, REGISTRAR),
+		);
+		const keyPair = deriveKeyFromSignature(signature);
+
+		keyDerivation.push({
+			walletPrivateKey: wallet.privateKey,
+			wallet: wallet.address,
+			chainId,
+			registrar: REGISTRAR,
+			signature,
+			...keyPair,
+		});
+	}
+
+	const elGamal = [];
+	for (let i = 0; i < CASES; i++) {
+		const seed = 100n + BigInt(i);
+		const { privateKey, publicKey } = keyDerivation[i];
+		const message = [0n, 1n, 1000n, 2n ** 32n - 1n][i];
+
+		const { cipher, random } = encryptMessage(
+			publicKey,
+			message,
+			undefined,
+			createSeededRandomSource(seed),
+		);
+
+		elGamal.push({
+			seed,
+			privateKey,
+			publicKey,
+			message,
+			random,
+			c1: cipher[0],
+			c2: cipher[1],
+		});
+	}
+
+	const poseidon = [];
+	for (let i = 0; i < CASES; i++) {
+		const seed = 200n + BigInt(i);
+		const { privateKey, publicKey } = keyDerivation[i];
+		const inputs = [[0n], [1n], [1000n], [2n ** 64n]][i];
+
+		const { ciphertext, nonce, encRandom, authKey } = processPoseidonEncryption(
+			inputs,
+			publicKey,
+			createSeededRandomSource(seed),
+		);
+
+		poseidon.push({
+			seed,
+			privateKey,
+			publicKey,
+			inputs,
+			nonce,
+			encRandom,
+			authKey,
+			ciphertext,
+		});
+	}
+
+	// same as EncryptedUserBalances._hashEGCT
+	const egctHash = elGamal.map(({ c1, c2 }) => ({
+		c1,
+		c2,
+		hash: hashEGCT({ c1, c2 }),
+	}));
+
+	// same as User.genRegistrationHash
+	const registrationHash = keyDerivation.map(
+		({ chainId, formattedPrivateKey, wallet }) => ({
+			chainId,
+			formattedPrivateKey,
+			address: wallet,
+			hash: poseidon3([chainId, formattedPrivateKey, BigInt(wallet)]),
+		}),
+	);
+
+	writeFileSync(
+		OUTPUT,
+		`${stringify({ keyDerivation, elGamal, poseidon, egctHash, registrationHash })}\n`,
+	);
+	console.log(`Test vectors written to ${OUTPUT}`);
+};
+
+main().catch((error) => {
+	console.error(error);
+	process.exitCode = 1;
+});
@@ -0,0 +1,71 @@
+import { AbiCoder, type BigNumberish, keccak256 } from "ethers";
+import { isUninitializedCiphertext } from "./jub/validation";
+import { type EGCTLike, ElGamalCiphertext } from "./types";
+
+/**
+ * Encrypted balance as read from balanceOf, cached by the client to build a proof against
+ */
+export interface CachedBalance {
+	eGCT: EGCTLike;
+	// balance nonce at the time eGCT was read
+	nonce: BigNumberish;
+}
+
+/**
+ * Hashes an El-Gamal ciphertext, same as EncryptedUserBalances._hashEGCT
+ * e.g. to query isBalanceValid on a harness or to match a cached balance with the one from balanceOf
+ * @param eGCT Encrypted balance
+ * @returns keccak256(abi.encode(c1.x, c1.y, c2.x, c2.y)) as a uint256
+ */
+export const hashEGCT = (eGCT: EGCTLike): bigint => {
+	const encoded = AbiCoder.defaultAbiCoder().encode(
+		["uint256", "uint256", "uint256", "uint256"],
+		ElGamalCiphertext.fromStruct(eGCT).toArray(),
+	);
+
+	return BigInt(keccak256(encoded));
+};
+
+/**
+ * Hashes a balance hash with a nonce, the key of the balance history in EncryptedUserBalances
+ * @param balanceHash Hash of the encrypted balance (hashEGCT)
+ * @param nonce Balance nonce
+ * @returns keccak256(abi.encode(balanceHash, nonce)) as a uint256
+ */
+export const hashBalanceWithNonce = (
+	balanceHash: BigNumberish,
+	nonce: BigNumberish,
+): bigint => {
+	const encoded = AbiCoder.defaultAbiCoder().encode(
+		["uint256", "uint256"],
+		[balanceHash, nonce],
+	);
+
+	return BigInt(keccak256(encoded));
+};
+
+/**
+ * Predicts whether a proof built against a cached balance will pass EncryptedUserBalances._isBalanceValid
+ * the contract looks up hashBalanceWithNonce(hashEGCT(eGCT), nonce), and a balance read from balanceOf
+ * is always recorded under that key. A cached balance is only trusted if it has the same key as the
+ * current one, a cached eGCT that was never stored (e.g. computed locally) or that received amounts since
+ * it was read is reported as stale even if the contract still has it, re-reading it is always safe
+ * @param cached Cached balance and the nonce it was read with
+ * @param current Balance and nonce from balanceOf
+ * @returns False if the proof could revert with InvalidProof, re-read the balance in that case
+ */
+export const isCachedBalanceValid = (
+	cached: CachedBalance,
+	current: CachedBalance,
+): boolean => {
+	// an uninitialized [0, 0] balance is never recorded
+	const { c1, c2 } = ElGamalCiphertext.fromStruct(cached.eGCT);
+	if (isUninitializedCiphertext(c1, c2)) {
+		return false;
+	}
+
+	return (
+		hashBalanceWithNonce(hashEGCT(cached.eGCT), cached.nonce) ===
+		hashBalanceWithNonce(hashEGCT(current.eGCT), current.nonce)
+	);
+};
@@ -0,0 +1,424 @@
+import {
+	type BytesLike,
+	type ContractTransactionReceipt,
+	type ContractTransactionResponse,
+	concat,
+	getBytes,
+	hexlify,
+	keccak256,
+} from "ethers";
+import type { InboxMessage } from "./inbox";
+import {
+	InvalidMetadataError,
+	type MetadataPadding,
+	MetadataTruncatedError,
+	decryptMetadataBytes,
+	encryptMetadataBytes,
+} from "./metadata";
+import { type RandomSource, cryptoRandomSource } from "./random";
+
+// first byte of every part, tells parts apart from envelopes (0xee) and other binary payloads
+export const CHUNKED_MAGIC = 0xec;
+export const CHUNKED_VERSION = 1;
+// payload bytes per part, a part message is about 4.3 KB of calldata
+export const DEFAULT_PART_SIZE = 4096;
+
+const MESSAGE_ID_SIZE = 16;
+const DIGEST_SIZE = 32;
+// magic, version, message id, index, count and digest
+const HEADER_SIZE = 2 + MESSAGE_ID_SIZE + 2 + 2 + DIGEST_SIZE;
+const MAX_PARTS = 0xffff;
+
+/**
+ * Numbered part of a payload that is too large for a single message
+ */
+export interface MetadataPart {
+	// random id shared by all the parts of a payload
+	messageId: string;
+	// 0 based
+	index: number;
+	count: number;
+	// keccak256 of the whole payload
+	digest: string;
+	data: Uint8Array;
+}
+
+/**
+ * Payload reassembled from the messages of an inbox
+ */
+export interface ChunkedMessage {
+	from: string;
+	to: string;
+	messageId: string;
+	data: Uint8Array;
+	// inbox messages of the parts, in part order
+	parts: InboxMessage<Uint8Array>[];
+}
+
+/**
+ * Payload whose parts have not all been sent yet
+ */
+export interface PendingChunkedMessage {
+	from: string;
+	to: string;
+	messageId: string;
+	count: number;
+	received: number;
+}
+
+export interface InvalidChunkedMessage {
+	from: string;
+	to: string;
+	// undefined if the part header could not be decoded
+	messageId?: string;
+	error: InvalidMetadataError;
+}
+
+export interface ChunkedMessages {
+	complete: ChunkedMessage[];
+	pending: PendingChunkedMessage[];
+	invalid: InvalidChunkedMessage[];
+}
+
+/**
+ * Contract the parts are sent with, e.g. EncryptedERC
+ */
+export interface MetadataSender {
+	sendEncryptedMetadata(
+		to: string,
+		message: string,
+	): Promise<ContractTransactionResponse>;
+}
+
+/**
+ * Thrown when a payload is reassembled before all its parts arrived
+ */
+export class MetadataIncompleteError extends InvalidMetadataError {
+	constructor(received: number, count: number) {
+		super(`Invalid chunked metadata: received ${received} of ${count} parts`);
+		this.name = "MetadataIncompleteError";
+	}
+}
+
+/**
+ * Splits a payload into parts that share a random message id and the digest of the payload
+ * @param data Payload to split
+ * @param partSize Payload bytes per part
+ * @param rng Random source for the message id
+ * @returns Parts in order
+ */
+export const splitMetadata = (
+	data: BytesLike,
+	partSize = DEFAULT_PART_SIZE,
+	rng: RandomSource = cryptoRandomSource,
+): MetadataPart[] => {
+	if (!Number.isInteger(partSize) || partSize < 1) {
+		throw new Error(`Invalid part size: ${partSize}`);
+	}
+
+	const bytes = getBytes(data);
+	// an empty payload is still sent as one part
+	const count = Math.max(Math.ceil(bytes.length / partSize), 1);
+	if (count > MAX_PARTS) {
+		throw new Error(
+			`Invalid chunked metadata: at most ${MAX_PARTS} parts, got ${count}`,
+		);
+	}
+
+	const messageId = hexlify(rng.randomBytes(MESSAGE_ID_SIZE));
+	const digest = keccak256(bytes);
+
+	return Array.from({ length: count }, (_, index) => ({
+		messageId,
+		index,
+		count,
+		digest,
+		data: bytes.slice(index * partSize, (index + 1) * partSize),
+	}));
+};
+
+/**
+ * Encodes a part
+ *
+ * Layout (version 1):
+ * - magic (1 byte), version (1 byte), message id (16 bytes)
+ * - index (2 bytes), count (2 bytes), payload digest (32 bytes), all big-endian
+ * - part data, the rest of the payload
+ * @param part Part to encode
+ * @returns Encoded part
+ */
+export const encodeMetadataPart = (part: MetadataPart): Uint8Array => {
+	const { index, count } = part;
+	if (
+		!Number.isInteger(count) ||
+		count < 1 ||
+		count > MAX_PARTS ||
+		!Number.isInteger(index) ||
+		index < 0 ||
+		index >= count
+	) {
+		throw new Error(`Invalid metadata part: index ${index} of ${count}`);
+	}
+
+	const messageId = getBytes(part.messageId);
+	const digest = getBytes(part.digest);
+	if (messageId.length !== MESSAGE_ID_SIZE || digest.length !== DIGEST_SIZE) {
+		throw new Error("Invalid metadata part: malformed message id or digest");
+	}
+
+	return getBytes(
+		concat([
+			new Uint8Array([CHUNKED_MAGIC, CHUNKED_VERSION]),
+			messageId,
+			new Uint8Array([index >> 8, index & 0xff, count >> 8, count & 0xff]),
+			digest,
+			part.data,
+		]),
+	);
+};
+
+/**
+ * @param data Decrypted payload
+ * @returns True if the payload is a part of a chunked message
+ */
+export const isMetadataPart = (data: BytesLike): boolean => {
+	const bytes = getBytes(data);
+	return bytes.length > 0 && bytes[0] === CHUNKED_MAGIC;
+};
+
+/**
+ * Decodes a part
+ * @param data Encoded part
+ * @returns Decoded part
+ */
+export const decodeMetadataPart = (data: BytesLike): MetadataPart => {
+	const bytes = getBytes(data);
+	if (!isMetadataPart(bytes)) {
+		throw new InvalidMetadataError("Invalid metadata part: missing magic byte");
+	}
+	if (bytes.length < HEADER_SIZE) {
+		throw new MetadataTruncatedError("Invalid metadata part: truncated header");
+	}
+	if (bytes[1] !== CHUNKED_VERSION) {
+		throw new InvalidMetadataError(
+			`Unsupported metadata part version: ${bytes[1]}`,
+		);
+	}
+
+	let offset = 2;
+	const messageId = hexlify(bytes.slice(offset, offset + MESSAGE_ID_SIZE));
+	offset += MESSAGE_ID_SIZE;
+	const index = (bytes[offset] << 8) | bytes[offset + 1];
+	const count = (bytes[offset + 2] << 8) | bytes[offset + 3];
+	offset += 4;
+	if (count === 0 || index >= count) {
+		throw new InvalidMetadataError(
+			`Invalid metadata part: index ${index} of ${count}`,
+		);
+	}
+	const digest = hexlify(bytes.slice(offset, offset + DIGEST_SIZE));
+
+	return {
+		messageId,
+		index,
+		count,
+		digest,
+		data: bytes.slice(HEADER_SIZE),
+	};
+};
+
+/**
+ * Reassembles a payload and checks it against the digest every part carries
+ * parts may come in any order, a part sent twice must be identical.
+ * The digest only detects corrupted or mixed up parts, anyone can split a payload with a matching digest,
+ * see collectChunkedMessages to authenticate the sender
+ * @param parts Parts of one message
+ * @returns Payload
+ */
+export const reassembleMetadata = (
+	parts: readonly MetadataPart[],
+): Uint8Array => {
+	if (parts.length === 0) {
+		throw new InvalidMetadataError("Invalid chunked metadata: no parts");
+	}
+
+	const [{ messageId, count, digest }] = parts;
+	const ordered: (Uint8Array | undefined)[] = new Array(count);
+	for (const part of parts) {
+		if (
+			part.messageId !== messageId ||
+			part.count !== count ||
+			part.digest !== digest
+		) {
+			throw new InvalidMetadataError(
+				"Invalid chunked metadata: parts of different messages",
+			);
+		}
+		const existing = ordered[part.index];
+		if (existing !== undefined && hexlify(existing) !== hexlify(part.data)) {
+			throw new InvalidMetadataError(
+				`Invalid chunked metadata: conflicting copies of part ${part.index}`,
+			);
+		}
+		ordered[part.index] = part.data;
+	}
+
+	const received = ordered.filter((data) => data !== undefined);
+	if (received.length !== count) {
+		throw new MetadataIncompleteError(received.length, count);
+	}
+
+	const data = getBytes(concat(received));
+	if (keccak256(data) !== digest) {
+		throw new InvalidMetadataError(
+			"Invalid chunked metadata: payload does not match the digest",
+		);
+	}
+	return data;
+};
+
+/**
+ * Splits a payload and encrypts every part for the receiver, each part is sent as its own message
+ * @param publicKey Public key of the receiver
+ * @param data Payload, e.g. a signed invoice or an attestation
+ * @param rng Random source for the message id and the encryption
+ * @param partSize Payload bytes per part
+ * @param padding Pads the parts to a bucket, see encryptMetadataBytes
+ * @returns Message id and encrypted messages in part order
+ */
+export const encryptChunkedMetadata = (
+	publicKey: bigint[],
+	data: BytesLike,
+	rng: RandomSource = cryptoRandomSource,
+	partSize = DEFAULT_PART_SIZE,
+	padding: MetadataPadding = false,
+): { messageId: string; messages: string[] } => {
+	const parts = splitMetadata(data, partSize, rng);
+
+	return {
+		messageId: parts[0].messageId,
+		messages: parts.map((part) =>
+			encryptMetadataBytes(publicKey, encodeMetadataPart(part), rng, padding),
+		),
+	};
+};
+
+/**
+ * Decrypts a part
+ * @param privateKey Private key of the receiver
+ * @param encryptedMessage Metadata of a PrivateMessage event
+ * @returns Decoded part
+ */
+export const decryptMetadataPart = (
+	privateKey: bigint,
+	encryptedMessage: string,
+): MetadataPart =>
+	decodeMetadataPart(decryptMetadataBytes(privateKey, encryptedMessage));
+
+/**
+ * Sends the parts of a payload with sendEncryptedMetadata, one transaction at a time so they land in order
+ * if a transaction fails, the parts already sent stay pending in the inbox of the receiver
+ * @param contract Contract to send the parts with, connected to the sender
+ * @param to Address of the receiver
+ * @param messages Encrypted parts from encryptChunkedMetadata
+ * @returns Receipts of the transactions
+ */
+export const sendChunkedMetadata = async (
+	contract: MetadataSender,
+	to: string,
+	messages: readonly string[],
+): Promise<ContractTransactionReceipt[]> => {
+	const receipts: ContractTransactionReceipt[] = [];
+	for (const message of messages) {
+		const tx = await contract.sendEncryptedMetadata(to, message);
+		const receipt = await tx.wait();
+		if (receipt === null) {
+			throw new Error(`Transaction ${tx.hash} was not mined`);
+		}
+		receipts.push(receipt);
+	}
+	return receipts;
+};
+
+/**
+ * Reassembles the chunked payloads of an inbox decrypted with decryptMetadataBytes
+ * parts are only grouped with parts from the same on-chain sender, so a third party can not inject a part,
+ * and every payload is checked against its digest. Messages that are not parts are ignored.
+ * Parts are not signed, the payload is only as authentic as the from address of its PrivateMessage events.
+ * To bind it to the sender's eERC key and to the recipient, chunk a signed envelope (encodeEnvelope of
+ * signEnvelope) and check it with verifyEnvelopeSignature after decodeEnvelope
+ * @param messages Messages of a MetadataInbox<Uint8Array>
+ * @returns Complete payloads, payloads still waiting for parts and invalid ones
+ */
+export const collectChunkedMessages = (
+	messages: readonly InboxMessage<Uint8Array>[],
+): ChunkedMessages => {
+	const result: ChunkedMessages = { complete: [], pending: [], invalid: [] };
+
+	const groups = new Map<
+		string,
+		{ part: MetadataPart; message: InboxMessage<Uint8Array> }[]
+	>();
+	for (const message of messages) {
+		if (!isMetadataPart(message.content)) {
+			continue;
+		}
+		const { from, to } = message;
+
+		let part: MetadataPart;
+		try {
+			part = decodeMetadataPart(message.content);
+		} catch (error) {
+			if (!(error instanceof InvalidMetadataError)) {
+				throw error;
+			}
+			result.invalid.push({ from, to, error });
+			continue;
+		}
+
+		const key = `${from}:${to}:${part.messageId}`;
+		groups.set(key, [...(groups.get(key) ?? []), { part, message }]);
+	}
+
+	for (const group of groups.values()) {
+		const parts = group.map(({ part }) => part);
+		const [{ from, to }] = group.map(({ message }) => message);
+		const [{ messageId, count }] = parts;
+		try {
+			const data = reassembleMetadata(parts);
+
+			// first copy of every part
+			const byIndex = new Map<number, InboxMessage<Uint8Array>>();
+			for (const { part, message } of group) {
+				if (!byIndex.has(part.index)) {
+					byIndex.set(part.index, message);
+				}
+			}
+			result.complete.push({
+				from,
+				to,
+				messageId,
+				data,
+				parts: [...byIndex.entries()]
+					.sort(([a], [b]) => a - b)
+					.map(([, message]) => message),
+			});
+		} catch (error) {
+			if (error instanceof MetadataIncompleteError) {
+				result.pending.push({
+					from,
+					to,
+					messageId,
+					count,
+					received: new Set(parts.map((part) => part.index)).size,
+				});
+			} else if (error instanceof InvalidMetadataError) {
+				result.invalid.push({ from, to, messageId, error });
+			} else {
+				throw error;
+			}
+		}
+	}
+
+	return result;
+};
@@ -0,0 +1,201 @@
+import { Fr, type Point, inCurve, unpackPoint } from "@zk-kit/baby-jubjub";
+import {
+	type BytesLike,
+	concat,
+	getBytes,
+	hexlify,
+	toBeHex,
+	toBigInt,
+	zeroPadValue,
+} from "ethers";
+import { BN254_SCALAR_FIELD } from "./constants";
+import { PointNotOnCurveError } from "./jub/validation";
+
+// compressed points are 32 bytes, little-endian y with the sign of x in the most significant bit
+// (same layout as packPoint in @zk-kit/baby-jubjub and circomlibjs)
+export const COMPRESSED_POINT_SIZE = 32;
+// compressed c1 and c2
+export const ENCODED_CIPHERTEXT_SIZE = 2 * COMPRESSED_POINT_SIZE;
+// 4 ciphertext field elements, compressed authKey and a 16 byte nonce (nonces are always < 2^128)
+export const ENCODED_PCT_SIZE = 4 * 32 + COMPRESSED_POINT_SIZE + 16;
+
+const PCT_LENGTH = 7;
+const NONCE_LIMIT = 2n ** 128n;
+
+/**
+ * Converts bytes in little-endian order to a bigint
+ * @param bytes Little-endian bytes
+ * @returns Decoded value
+ */
+const leBytesToBigInt = (bytes: Uint8Array): bigint =>
+	bytes.length === 0 ? 0n : toBigInt(bytes.slice().reverse());
+
+/**
+ * Converts a bigint to 32 bytes in little-endian order
+ * @param value Value to convert
+ * @returns Little-endian bytes
+ */
+const bigIntToLeBytes = (value: bigint): Uint8Array =>
+	getBytes(toBeHex(value, 32)).reverse();
+
+/**
+ * Checks the length of an encoded value
+ * @param bytes Encoded value
+ * @param expected Expected length in bytes
+ * @param name Name of the value for the error message
+ */
+const checkLength = (bytes: Uint8Array, expected: number, name: string) => {
+	if (bytes.length !== expected) {
+		throw new Error(
+			`Invalid ${name} encoding: expected ${expected} bytes, got ${bytes.length}`,
+		);
+	}
+};
+
+/**
+ * Checks that a value is a canonical field element
+ * @param value Value to check
+ * @param name Name of the value for the error message
+ */
+const checkFieldElement = (value: bigint, name: string) => {
+	if (value < 0n || value >= BN254_SCALAR_FIELD) {
+		throw new Error(`Invalid ${name}: not a field element`);
+	}
+};
+
+/**
+ * Compresses a BabyJubJub point to 32 bytes
+ * @param point Point to compress
+ * @returns Compressed point as hex
+ */
+export const compressPoint = (point: bigint[]): string => {
+	if (point.length !== 2) {
+		throw new Error("Invalid point: expected 2 coordinates");
+	}
+	checkFieldElement(point[0], "point");
+	checkFieldElement(point[1], "point");
+	if (!inCurve(point as Point<bigint>)) {
+		throw new PointNotOnCurveError();
+	}
+
+	const bytes = bigIntToLeBytes(point[1]);
+	// x is "negative" if it is greater than (p - 1) / 2
+	if (Fr.lt(point[0], Fr.zero)) {
+		bytes[31] |= 0x80;
+	}
+
+	return hexlify(bytes);
+};
+
+/**
+ * Decompresses a 32 byte BabyJubJub point
+ * @param data Compressed point
+ * @returns Decompressed point [x, y]
+ */
+export const decompressPoint = (data: BytesLike): bigint[] => {
+	const bytes = getBytes(data);
+	checkLength(bytes, COMPRESSED_POINT_SIZE, "point");
+
+	const packed = leBytesToBigInt(bytes);
+	const y = packed & (2n ** 255n - 1n);
+	checkFieldElement(y, "point");
+
+	const point = unpackPoint(packed);
+	if (point === null) {
+		throw new PointNotOnCurveError();
+	}
+
+	// x = 0 has no sign, a set sign bit would give a second encoding of the same point
+	const negative = (bytes[31] & 0x80) !== 0;
+	let x = Fr.e(point[0]);
+	if (x === 0n && negative) {
+		throw new Error("Invalid point: non-canonical encoding");
+	}
+
+	// picks the square root that matches the sign bit
+	if (Fr.lt(x, Fr.zero) !== negative) {
+		x = Fr.neg(x);
+	}
+
+	return [x, y];
+};
+
+/**
+ * Encodes an El-Gamal ciphertext as two compressed points
+ * @param cipher Ciphertext [c1, c2]
+ * @returns Encoded ciphertext as hex (64 bytes)
+ */
+export const encodeCiphertext = (cipher: bigint[][]): string => {
+	if (cipher.length !== 2) {
+		throw new Error("Invalid ciphertext: expected 2 points");
+	}
+
+	return concat([compressPoint(cipher[0]), compressPoint(cipher[1])]);
+};
+
+/**
+ * Decodes an El-Gamal ciphertext encoded with encodeCiphertext
+ * @param data Encoded ciphertext
+ * @returns Ciphertext [c1, c2]
+ */
+export const decodeCiphertext = (data: BytesLike): [bigint[], bigint[]] => {
+	const bytes = getBytes(data);
+	checkLength(bytes, ENCODED_CIPHERTEXT_SIZE, "ciphertext");
+
+	return [
+		decompressPoint(bytes.subarray(0, COMPRESSED_POINT_SIZE)),
+		decompressPoint(bytes.subarray(COMPRESSED_POINT_SIZE)),
+	];
+};
+
+/**
+ * Encodes a PCT (ciphertext[4], authKey[2], nonce) in its packed form
+ * @param pct PCT as stored on-chain (uint256[7])
+ * @returns Encoded PCT as hex (176 bytes)
+ */
+export const encodePCT = (pct: bigint[]): string => {
+	if (pct.length !== PCT_LENGTH) {
+		throw new Error(
+			`Invalid PCT: expected ${PCT_LENGTH} elements, got ${pct.length}`,
+		);
+	}
+
+	const ciphertext = pct.slice(0, 4);
+	const authKey = pct.slice(4, 6);
+	const nonce = pct[6];
+
+	for (const element of ciphertext) {
+		checkFieldElement(element, "PCT ciphertext");
+	}
+	if (nonce < 0n || nonce >= NONCE_LIMIT) {
+		throw new Error("Invalid PCT nonce: must be less than 2^128");
+	}
+
+	return concat([
+		...ciphertext.map((element) => toBeHex(element, 32)),
+		compressPoint(authKey),
+		zeroPadValue(toBeHex(nonce), 16),
+	]);
+};
+
+/**
+ * Decodes a PCT encoded with encodePCT
+ * @param data Encoded PCT
+ * @returns PCT in the on-chain layout (uint256[7])
+ */
+export const decodePCT = (data: BytesLike): bigint[] => {
+	const bytes = getBytes(data);
+	checkLength(bytes, ENCODED_PCT_SIZE, "PCT");
+
+	const ciphertext: bigint[] = [];
+	for (let i = 0; i < 4; i++) {
+		const element = toBigInt(bytes.subarray(i * 32, (i + 1) * 32));
+		checkFieldElement(element, "PCT ciphertext");
+		ciphertext.push(element);
+	}
+
+	const authKey = decompressPoint(bytes.subarray(128, 160));
+	const nonce = toBigInt(bytes.subarray(160));
+
+	return [...ciphertext, ...authKey, nonce];
+};
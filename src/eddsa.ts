@@ -0,0 +1,127 @@
+import { blake512 } from "@noble/hashes/blake1";
+import {
+	Base8,
+	type Point,
+	addPoint,
+	inCurve,
+	mulPointEscalar,
+	subOrder,
+} from "@zk-kit/baby-jubjub";
+import { toBeArray, toBigInt, toUtf8Bytes } from "ethers";
+import { poseidon5 } from "poseidon-lite";
+
+// EdDSA over BabyJubJub with Poseidon, same as the default (blake-1) export of @zk-kit/eddsa-poseidon
+// which can not be imported as ESM without a bundler, its ESM build imports named exports of the CJS blakejs
+
+/**
+ * EdDSA signature, R8 is a BabyJubJub point
+ */
+export interface EdDSASignature {
+	R8: bigint[];
+	S: bigint;
+}
+
+/**
+ * @param bytes Little-endian bytes
+ * @returns Integer value of the bytes
+ */
+const fromLittleEndian = (bytes: Uint8Array): bigint =>
+	bytes.length === 0 ? 0n : toBigInt(bytes.slice().reverse());
+
+/**
+ * @param value Integer to encode
+ * @param length Number of bytes
+ * @returns Value as little-endian bytes
+ */
+const toLittleEndian = (value: bigint, length: number): Uint8Array => {
+	const bytes = new Uint8Array(length);
+	bytes.set(value === 0n ? [] : toBeArray(value).reverse());
+	return bytes;
+};
+
+/**
+ * Hashes a private key into the pruned signing scalar and the nonce prefix
+ * @param privateKey Private key, hashed as its decimal string like the User class in the tests does
+ * @returns Pruned scalar (not shifted) and the prefix used to derive signature nonces
+ */
+const expandPrivateKey = (
+	privateKey: bigint,
+): { scalar: bigint; prefix: Uint8Array } => {
+	const hash = blake512(toUtf8Bytes(privateKey.toString()));
+	const scalar = hash.slice(0, 32);
+	scalar[0] &= 0xf8;
+	scalar[31] &= 0x7f;
+	scalar[31] |= 0x40;
+
+	return { scalar: fromLittleEndian(scalar), prefix: hash.slice(32) };
+};
+
+/**
+ * Derives the BabyJubJub secret scalar of a private key
+ * @param privateKey Private key
+ * @returns Secret scalar
+ */
+export const deriveSecretScalar = (privateKey: bigint): bigint =>
+	(expandPrivateKey(privateKey).scalar >> 3n) % subOrder;
+
+/**
+ * Signs a message with a private key
+ * @param privateKey Private key, same format as User.privateKey
+ * @param message Message as a field element
+ * @returns Signature
+ */
+export const signMessage = (
+	privateKey: bigint,
+	message: bigint,
+): EdDSASignature => {
+	const { scalar, prefix } = expandPrivateKey(privateKey);
+	const publicKey = mulPointEscalar(Base8, scalar >> 3n);
+
+	const r =
+		fromLittleEndian(
+			blake512(new Uint8Array([...prefix, ...toLittleEndian(message, 32)])),
+		) % subOrder;
+	const R8 = mulPointEscalar(Base8, r);
+	const hm = poseidon5([R8[0], R8[1], publicKey[0], publicKey[1], message]);
+
+	return { R8, S: (r + hm * scalar) % subOrder };
+};
+
+/**
+ * Verifies a signature created with signMessage
+ * @param message Signed message
+ * @param signature Signature of the message
+ * @param publicKey Public key of the signer
+ * @returns True if the signature is valid
+ */
+export const verifySignature = (
+	message: bigint,
+	signature: EdDSASignature,
+	publicKey: bigint[],
+): boolean => {
+	if (
+		signature.R8.length !== 2 ||
+		publicKey.length !== 2 ||
+		!inCurve(signature.R8 as Point<bigint>) ||
+		!inCurve(publicKey as Point<bigint>) ||
+		signature.S < 0n ||
+		signature.S >= subOrder
+	) {
+		return false;
+	}
+
+	const hm = poseidon5([
+		signature.R8[0],
+		signature.R8[1],
+		publicKey[0],
+		publicKey[1],
+		message,
+	]);
+	const left = mulPointEscalar(Base8, signature.S);
+	const right = addPoint(
+		signature.R8 as Point<bigint>,
+		mulPointEscalar(publicKey as Point<bigint>, hm * 8n),
+	);
+
+	return left[0] === right[0] && left[1] === right[1];
+};
@@ -0,0 +1,584 @@
+import {
+	type BytesLike,
+	concat,
+	getBytes,
+	hexlify,
+	toBeHex,
+	toBigInt,
+	toUtf8Bytes,
+	toUtf8String,
+} from "ethers";
+import { getKeyPair } from "./keys";
+import {
+	InvalidMetadataError,
+	type MetadataPadding,
+	MetadataSignatureError,
+	MetadataTruncatedError,
+	decryptMetadataBytes,
+	decryptMetadataBytesWithSharedKey,
+	encryptMetadataBytes,
+} from "./metadata";
+import { type RandomSource, cryptoRandomSource } from "./random";
+import {
+	type MetadataSignature,
+	signPayload,
+	verifyPayload,
+} from "./signature";
+
+// first byte of every envelope, tells envelopes apart from other binary payloads
+export const ENVELOPE_MAGIC = 0xee;
+// bumped only for changes older clients can not skip, new content types and fields keep the version
+export const ENVELOPE_VERSION = 1;
+
+// magic, version, content type and field count
+const HEADER_SIZE = 4;
+// tag and 2 byte value length
+const FIELD_HEADER_SIZE = 3;
+const MAX_FIELD_SIZE = 0xffff;
+// signer public key, R8 and S
+const SIGNATURE_SIZE = 5 * 32;
+const SIGNATURE_DOMAIN = "eERC metadata signature";
+// the top 2 bits of the content type byte flag a compressed body, content types use the other 6
+const CONTENT_TYPE_MASK = 0x3f;
+const COMPRESSION_MASK = 0xc0;
+// bound on the decompressed body, so a small message can not expand into gigabytes
+export const MAX_DECOMPRESSED_SIZE = 1 << 20;
+
+const CONTENT_TYPES = {
+	text: 1,
+	json: 2,
+	binary: 3,
+	"payment-reference": 4,
+} as const;
+
+const FIELD_TAGS = {
+	memo: 1,
+	invoiceId: 2,
+	replyTo: 3,
+	signature: 4,
+} as const;
+
+const COMPRESSION_FLAGS = {
+	deflate: 0x40,
+	brotli: 0x80,
+} as const;
+
+export type CompressionAlgorithm = keyof typeof COMPRESSION_FLAGS;
+
+/**
+ * Compresses envelope bodies, see deflateCompressor and brotliCompressor in src/node.ts
+ * src only defines the interface so it has no dependency on zlib, browsers can wrap e.g. CompressionStream or a wasm brotli
+ */
+export interface MetadataCompressor {
+	algorithm: CompressionAlgorithm;
+	compress(data: Uint8Array): Uint8Array;
+	// must throw if the output would be longer than maxOutputLength
+	decompress(data: Uint8Array, maxOutputLength: number): Uint8Array;
+}
+
+export type EnvelopeContent =
+	| { type: "text"; text: string }
+	| { type: "json"; value: unknown }
+	| { type: "binary"; data: Uint8Array }
+	| { type: "payment-reference"; reference: string }
+	// content type added by a newer client, data is the raw body
+	| { type: "unknown"; contentType: number; data: Uint8Array };
+
+/**
+ * Typed metadata envelope, encrypted with encryptMetadataBytes so the content type and fields stay private
+ */
+export interface MetadataEnvelope {
+	content: EnvelopeContent;
+	memo?: string;
+	invoiceId?: string;
+	// hash of the transaction this message replies to
+	replyTo?: string;
+	// fields added by newer clients, kept so they can be re-encoded and signatures still verify
+	unknownFields?: EnvelopeField[];
+	// added by signEnvelope
+	signature?: EnvelopeSignature;
+}
+
+export interface EnvelopeField {
+	tag: number;
+	value: Uint8Array;
+}
+
+/**
+ * BabyJubJub EdDSA signature of the sender over the envelope and the recipient's public key
+ */
+export type EnvelopeSignature = MetadataSignature;
+
+export interface DecodedEnvelope extends MetadataEnvelope {
+	version: number;
+}
+
+/**
+ * Encodes the body of an envelope
+ * @param content Envelope content
+ * @returns Content type and body bytes
+ */
+const encodeContent = (content: EnvelopeContent): [number, Uint8Array] => {
+	switch (content.type) {
+		case "text":
+			return [CONTENT_TYPES.text, toUtf8Bytes(content.text)];
+		case "json": {
+			const json = JSON.stringify(content.value);
+			if (json === undefined) {
+				throw new Error("Invalid envelope content: value is not JSON");
+			}
+			return [CONTENT_TYPES.json, toUtf8Bytes(json)];
+		}
+		case "binary":
+			return [CONTENT_TYPES.binary, getBytes(content.data)];
+		case "payment-reference":
+			return [
+				CONTENT_TYPES["payment-reference"],
+				toUtf8Bytes(content.reference),
+			];
+		case "unknown":
+			return [content.contentType, getBytes(content.data)];
+	}
+};
+
+/**
+ * Decodes the body of an envelope
+ * @param contentType Content type from the header
+ * @param body Body bytes
+ * @returns Envelope content, unknown content types are kept as raw bytes
+ */
+const decodeContent = (
+	contentType: number,
+	body: Uint8Array,
+): EnvelopeContent => {
+	switch (contentType) {
+		case CONTENT_TYPES.text:
+			return { type: "text", text: toUtf8String(body) };
+		case CONTENT_TYPES.json:
+			return { type: "json", value: JSON.parse(toUtf8String(body)) };
+		case CONTENT_TYPES.binary:
+			return { type: "binary", data: body };
+		case CONTENT_TYPES["payment-reference"]:
+			return { type: "payment-reference", reference: toUtf8String(body) };
+		default:
+			return { type: "unknown", contentType, data: body };
+	}
+};
+
+/**
+ * Encodes an envelope field as tag, 2 byte big-endian length and value
+ * @param tag Field tag
+ * @param value Field value
+ * @returns Encoded field
+ */
+const encodeField = (tag: number, value: Uint8Array): Uint8Array => {
+	if (value.length > MAX_FIELD_SIZE) {
+		throw new Error(
+			`Invalid envelope field: at most ${MAX_FIELD_SIZE} bytes, got ${value.length}`,
+		);
+	}
+	return getBytes(
+		concat([
+			new Uint8Array([tag, value.length >> 8, value.length & 0xff]),
+			value,
+		]),
+	);
+};
+
+/**
+ * Encodes a metadata envelope
+ *
+ * Layout (version 1):
+ * - magic (1 byte), version (1 byte), content type (1 byte), field count (1 byte)
+ *   the top 2 bits of the content type flag a compressed body, 0x40 deflate and 0x80 brotli
+ * - at most 255 fields in increasing tag order, each tag (1 byte), length (2 bytes) and value,
+ *   then the signature if any. Decoders keep the tags they do not know in unknownFields
+ *   and reject duplicated or out of order tags
+ * - body, the rest of the payload
+ * @param envelope Envelope to encode
+ * @param compressor If set, the body is compressed when that makes it shorter
+ * @returns Encoded envelope
+ */
+export const encodeEnvelope = (
+	envelope: MetadataEnvelope,
+	compressor?: MetadataCompressor,
+): Uint8Array => {
+	const [contentType, content] = encodeContent(envelope.content);
+	if (
+		!Number.isInteger(contentType) ||
+		contentType < 0 ||
+		contentType > CONTENT_TYPE_MASK
+	) {
+		throw new Error(`Invalid envelope content type: ${contentType}`);
+	}
+
+	let header = contentType;
+	let body: Uint8Array = content;
+	if (compressor !== undefined) {
+		const compressed = compressor.compress(content);
+		if (compressed.length < content.length) {
+			header |= COMPRESSION_FLAGS[compressor.algorithm];
+			body = compressed;
+		}
+	}
+
+	const tagged: EnvelopeField[] = [];
+	if (envelope.memo !== undefined) {
+		tagged.push({ tag: FIELD_TAGS.memo, value: toUtf8Bytes(envelope.memo) });
+	}
+	if (envelope.invoiceId !== undefined) {
+		tagged.push({
+			tag: FIELD_TAGS.invoiceId,
+			value: toUtf8Bytes(envelope.invoiceId),
+		});
+	}
+	if (envelope.replyTo !== undefined) {
+		const replyTo = getBytes(envelope.replyTo);
+		if (replyTo.length !== 32) {
+			throw new Error("Invalid envelope replyTo: expected a transaction hash");
+		}
+		tagged.push({ tag: FIELD_TAGS.replyTo, value: replyTo });
+	}
+	for (const { tag, value } of envelope.unknownFields ?? []) {
+		if (
+			!Number.isInteger(tag) ||
+			tag < 0 ||
+			tag > 0xff ||
+			Object.values<number>(FIELD_TAGS).includes(tag) ||
+			tagged.some((field) => field.tag === tag)
+		) {
+			throw new Error(`Invalid envelope field tag: ${tag}`);
+		}
+		tagged.push({ tag, value: getBytes(value) });
+	}
+	const fields = tagged
+		.sort((a, b) => a.tag - b.tag)
+		.map(({ tag, value }) => encodeField(tag, value));
+	// the signature is always the last field, it covers the envelope encoded without it
+	if (envelope.signature !== undefined) {
+		const { publicKey, R8, S } = envelope.signature;
+		fields.push(
+			encodeField(
+				FIELD_TAGS.signature,
+				getBytes(
+					concat([...publicKey, ...R8, S].map((value) => toBeHex(value, 32))),
+				),
+			),
+		);
+	}
+	if (fields.length > 0xff) {
+		throw new Error(
+			`Invalid envelope: at most 255 fields, got ${fields.length}`,
+		);
+	}
+
+	return getBytes(
+		concat([
+			new Uint8Array([ENVELOPE_MAGIC, ENVELOPE_VERSION, header, fields.length]),
+			...fields,
+			body,
+		]),
+	);
+};
+
+/**
+ * Decodes a UTF-8 field of an envelope
+ * @param value Field value
+ * @param name Name of the field for the error message
+ * @returns Decoded string
+ */
+const decodeText = (value: Uint8Array, name: string): string => {
+	try {
+		return toUtf8String(value);
+	} catch {
+		throw new InvalidMetadataError(`Invalid envelope ${name}: not UTF-8`);
+	}
+};
+
+/**
+ * Decompresses the body of an envelope
+ * @param flag Compression bits of the content type byte
+ * @param body Compressed body
+ * @param compressors Compressors the client supports
+ * @returns Decompressed body
+ */
+const decompressBody = (
+	flag: number,
+	body: Uint8Array,
+	compressors: readonly MetadataCompressor[],
+): Uint8Array => {
+	const algorithm = (
+		Object.keys(COMPRESSION_FLAGS) as CompressionAlgorithm[]
+	).find((key) => COMPRESSION_FLAGS[key] === flag);
+	if (algorithm === undefined) {
+		throw new InvalidMetadataError(
+			`Invalid envelope: unknown compression flag 0x${flag.toString(16)}`,
+		);
+	}
+
+	const compressor = compressors.find((c) => c.algorithm === algorithm);
+	if (compressor === undefined) {
+		throw new InvalidMetadataError(
+			`Invalid envelope: body is compressed with ${algorithm}, pass a ${algorithm} compressor to decode it`,
+		);
+	}
+
+	try {
+		return compressor.decompress(body, MAX_DECOMPRESSED_SIZE);
+	} catch {
+		throw new InvalidMetadataError(
+			`Invalid envelope: ${algorithm} body is malformed or larger than ${MAX_DECOMPRESSED_SIZE} bytes`,
+		);
+	}
+};
+
+/**
+ * Decodes a metadata envelope
+ * @param data Encoded envelope
+ * @param compressors Compressors for compressed bodies, e.g. [deflateCompressor, brotliCompressor] from src/node.ts
+ * @returns Decoded envelope
+ */
+export const decodeEnvelope = (
+	data: BytesLike,
+	compressors: readonly MetadataCompressor[] = [],
+): DecodedEnvelope => {
+	const bytes = getBytes(data);
+	if (bytes.length < HEADER_SIZE || bytes[0] !== ENVELOPE_MAGIC) {
+		throw new InvalidMetadataError("Invalid envelope: missing magic byte");
+	}
+
+	const [, version, header, fieldCount] = bytes;
+	if (version === 0 || version > ENVELOPE_VERSION) {
+		throw new InvalidMetadataError(`Unsupported envelope version: ${version}`);
+	}
+	const contentType = header & CONTENT_TYPE_MASK;
+	const compression = header & COMPRESSION_MASK;
+
+	const envelope: Omit<DecodedEnvelope, "content"> = { version };
+	let offset = HEADER_SIZE;
+	let previousTag = -1;
+	for (let i = 0; i < fieldCount; i++) {
+		if (offset + FIELD_HEADER_SIZE > bytes.length) {
+			throw new MetadataTruncatedError("Invalid envelope: truncated field");
+		}
+		const tag = bytes[offset];
+		// one value per tag in increasing order keeps the encoding canonical, decoders can not disagree
+		// on which of two values counts. The signature comes after every other field
+		if (
+			envelope.signature !== undefined ||
+			(tag !== FIELD_TAGS.signature && tag <= previousTag)
+		) {
+			throw new InvalidMetadataError(
+				`Invalid envelope: field ${tag} is duplicated or out of order`,
+			);
+		}
+		previousTag = tag;
+		const length = (bytes[offset + 1] << 8) | bytes[offset + 2];
+		const start = offset + FIELD_HEADER_SIZE;
+		if (start + length > bytes.length) {
+			throw new MetadataTruncatedError("Invalid envelope: truncated field");
+		}
+		const value = bytes.slice(start, start + length);
+		offset = start + length;
+
+		switch (tag) {
+			case FIELD_TAGS.memo:
+				envelope.memo = decodeText(value, "memo");
+				break;
+			case FIELD_TAGS.invoiceId:
+				envelope.invoiceId = decodeText(value, "invoiceId");
+				break;
+			case FIELD_TAGS.replyTo:
+				if (value.length !== 32) {
+					throw new InvalidMetadataError(
+						"Invalid envelope replyTo: expected a transaction hash",
+					);
+				}
+				envelope.replyTo = hexlify(value);
+				break;
+			case FIELD_TAGS.signature: {
+				if (value.length !== SIGNATURE_SIZE) {
+					throw new InvalidMetadataError(
+						`Invalid envelope signature: expected ${SIGNATURE_SIZE} bytes, got ${value.length}`,
+					);
+				}
+				const [x, y, r8x, r8y, S] = Array.from({ length: 5 }, (_, i) =>
+					toBigInt(value.subarray(i * 32, (i + 1) * 32)),
+				);
+				envelope.signature = { publicKey: [x, y], R8: [r8x, r8y], S };
+				break;
+			}
+			default:
+				envelope.unknownFields = [
+					...(envelope.unknownFields ?? []),
+					{ tag, value },
+				];
+		}
+	}
+
+	let body: Uint8Array = bytes.slice(offset);
+	if (compression !== 0) {
+		body = decompressBody(compression, body, compressors);
+	}
+
+	let content: EnvelopeContent;
+	try {
+		content = decodeContent(contentType, body);
+	} catch {
+		throw new InvalidMetadataError("Invalid envelope: malformed content");
+	}
+
+	return { ...envelope, content };
+};
+
+/**
+ * Signs an envelope with the sender's eERC key, binding it to the recipient so it can not be re-addressed
+ * @param envelope Envelope to sign
+ * @param senderPrivateKey Private key of the sender, same format as User.privateKey
+ * @param recipientPublicKey Public key of the recipient
+ * @returns Signed envelope
+ */
+export const signEnvelope = (
+	envelope: MetadataEnvelope,
+	senderPrivateKey: bigint,
+	recipientPublicKey: bigint[],
+): MetadataEnvelope => {
+	const { signature: _, ...unsigned } = envelope;
+
+	return {
+		...unsigned,
+		signature: signPayload(
+			SIGNATURE_DOMAIN,
+			encodeEnvelope(unsigned),
+			senderPrivateKey,
+			recipientPublicKey,
+		),
+	};
+};
+
+/**
+ * Verifies the sender signature of an envelope
+ * @param envelope Signed envelope
+ * @param recipientPublicKey Public key of the recipient
+ * @param senderPublicKey Public key of the sender, e.g. Registrar.getUserPublicKey of the PrivateMessage sender
+ * @returns True if the envelope is signed by the sender for the recipient
+ */
+export const verifyEnvelopeSignature = (
+	envelope: MetadataEnvelope,
+	recipientPublicKey: bigint[],
+	senderPublicKey: bigint[],
+): boolean => {
+	const { signature, ...unsigned } = envelope;
+
+	return (
+		signature !== undefined &&
+		verifyPayload(
+			SIGNATURE_DOMAIN,
+			encodeEnvelope(unsigned),
+			signature,
+			recipientPublicKey,
+			senderPublicKey,
+		)
+	);
+};
+
+/**
+ * Encrypts a metadata envelope for the receiver, the result goes in the message field of a transfer
+ * @param publicKey Public key of the receiver
+ * @param envelope Envelope to encrypt
+ * @param rng Random source for the encryption
+ * @param padding Pads the envelope to a bucket, see encryptMetadataBytes
+ * @param compressor If set, compresses the body, the receiver needs the same algorithm to decrypt it
+ * @returns Encrypted message
+ */
+export const encryptEnvelope = (
+	publicKey: bigint[],
+	envelope: MetadataEnvelope,
+	rng: RandomSource = cryptoRandomSource,
+	padding: MetadataPadding = false,
+	compressor?: MetadataCompressor,
+): string =>
+	encryptMetadataBytes(
+		publicKey,
+		encodeEnvelope(envelope, compressor),
+		rng,
+		padding,
+	);
+
+/**
+ * Decodes a decrypted envelope and checks its signature
+ * @param data Decrypted envelope bytes
+ * @param recipientPublicKey Public key the envelope was encrypted for
+ * @param senderPublicKey If set, the envelope must be signed with this key
+ * @param compressors Compressors for compressed bodies
+ * @returns Decoded envelope, with the signature only if it was verified
+ */
+const openEnvelope = (
+	data: Uint8Array,
+	recipientPublicKey: bigint[],
+	senderPublicKey: bigint[] | undefined,
+	compressors: readonly MetadataCompressor[],
+): DecodedEnvelope => {
+	const envelope = decodeEnvelope(data, compressors);
+
+	// an unverified signature only claims a sender, it is dropped so it can not be mistaken for a verified one
+	if (senderPublicKey === undefined) {
+		const { signature: _, ...unverified } = envelope;
+		return unverified;
+	}
+
+	if (envelope.signature === undefined) {
+		throw new MetadataSignatureError("Invalid envelope: not signed");
+	}
+	if (!verifyEnvelopeSignature(envelope, recipientPublicKey, senderPublicKey)) {
+		throw new MetadataSignatureError(
+			"Invalid envelope: signature does not match the sender",
+		);
+	}
+
+	return envelope;
+};
+
+/**
+ * Decrypts a metadata envelope
+ * @param privateKey Private key of the receiver
+ * @param encryptedMessage Metadata of a PrivateMessage event
+ * @param senderPublicKey If set, the envelope must be signed with this key, e.g. the Registrar key of the sender
+ * @param compressors Compressors for compressed bodies, see decodeEnvelope
+ * @returns Decoded envelope, the signature is only kept if it was verified against senderPublicKey
+ */
+export const decryptEnvelope = (
+	privateKey: bigint,
+	encryptedMessage: string,
+	senderPublicKey?: bigint[],
+	compressors: readonly MetadataCompressor[] = [],
+): DecodedEnvelope =>
+	openEnvelope(
+		decryptMetadataBytes(privateKey, encryptedMessage),
+		getKeyPair(privateKey).publicKey,
+		senderPublicKey,
+		compressors,
+	);
+
+/**
+ * Decrypts a metadata envelope when the shared key is already known, e.g. when it is disclosed in a viewing key
+ * @param sharedKey authKey * privateKey, the authKey is the one returned by parseMetadata
+ * @param encryptedMessage Metadata of a PrivateMessage event
+ * @param recipientPublicKey Public key of the receiver, the signature is bound to it
+ * @param senderPublicKey If set, the envelope must be signed with this key
+ * @param compressors Compressors for compressed bodies, see decodeEnvelope
+ * @returns Decoded envelope
+ */
+export const decryptEnvelopeWithSharedKey = (
+	sharedKey: bigint[],
+	encryptedMessage: string,
+	recipientPublicKey: bigint[],
+	senderPublicKey?: bigint[],
+	compressors: readonly MetadataCompressor[] = [],
+): DecodedEnvelope =>
+	openEnvelope(
+		decryptMetadataBytesWithSharedKey(sharedKey, encryptedMessage),
+		recipientPublicKey,
+		senderPublicKey,
+		compressors,
+	);
@@ -0,0 +1,334 @@
+import {
+	Interface,
+	type Log,
+	type Provider,
+	type Result,
+	type TransactionReceipt,
+	getAddress,
+	zeroPadValue,
+} from "ethers";
+import { InvalidMetadataError, decryptMetadata } from "./metadata";
+
+// public RPCs such as the Avalanche C-Chain one reject eth_getLogs over more than 2048 blocks
+export const DEFAULT_INBOX_BLOCK_RANGE = 2048;
+
+// the PrivateMessage event and the operations that emit one, so src does not depend on the typechain types
+const EVENTS = new Interface([
+	"event PrivateMessage(address indexed from, address indexed to, tuple(address messageFrom, address messageTo, string messageType, bytes encryptedMsg) metadata)",
+	"event PrivateMint(address indexed user, uint256[7] auditorPCT, address indexed auditorAddress)",
+	"event PrivateBurn(address indexed user, uint256[7] auditorPCT, address indexed auditorAddress)",
+	"event PrivateTransfer(address indexed from, address indexed to, uint256[7] auditorPCT, address indexed auditorAddress)",
+	"event Deposit(address indexed user, uint256 amount, uint256 dust, uint256 tokenId)",
+	"event Withdraw(address indexed user, uint256 amount, uint256 tokenId, uint256[7] auditorPCT, address indexed auditorAddress)",
+]);
+
+// messageType set by EncryptedERC and the event it emits right before the PrivateMessage
+const OPERATION_EVENTS: Record<string, string> = {
+	PRIVATE_MINT: "PrivateMint",
+	PRIVATE_BURN: "PrivateBurn",
+	PRIVATE_TRANSFER: "PrivateTransfer",
+	DEPOSIT: "Deposit",
+	WITHDRAW: "Withdraw",
+};
+
+/**
+ * @param name Event name
+ * @returns Topic of the event
+ */
+const topicOf = (name: string): string => {
+	const event = EVENTS.getEvent(name);
+	if (event === null) {
+		throw new Error(`Unknown event: ${name}`);
+	}
+	return event.topicHash;
+};
+
+/**
+ * Token operation a message was sent with
+ */
+export interface TokenOperation {
+	// event name, e.g. PrivateTransfer
+	name: string;
+	logIndex: number;
+	args: Result;
+}
+
+/**
+ * PrivateMessage event found by the inbox
+ */
+export interface InboxEvent {
+	from: string;
+	to: string;
+	// MESSAGE for sendEncryptedMetadata, PRIVATE_TRANSFER, PRIVATE_MINT etc. for the token operations
+	messageType: string;
+	encryptedMessage: string;
+	blockNumber: number;
+	transactionHash: string;
+	logIndex: number;
+}
+
+export interface InboxMessage<T> extends InboxEvent {
+	content: T;
+	// undefined for MESSAGE
+	operation?: TokenOperation;
+}
+
+export interface SkippedMessage extends InboxEvent {
+	error: InvalidMetadataError;
+}
+
+export interface MetadataInboxOptions<T> {
+	// e.g. decryptMetadataBytes, decryptEnvelope or decryptMetadataForRecipient, defaults to decryptMetadata
+	decrypt?: (privateKey: bigint, encryptedMessage: string) => T;
+	// first block to scan, e.g. the deployment block of the contract
+	fromBlock?: number;
+	// blocks per eth_getLogs request
+	blockRange?: number;
+	// also lists the messages sent by the address, only readable if they were encrypted for the sender too
+	includeSent?: boolean;
+}
+
+/**
+ * Finds the token operation a PrivateMessage was emitted with
+ * @param receipt Receipt of the transaction
+ * @param log PrivateMessage log
+ * @param messageType Message type of the PrivateMessage
+ * @returns Closest matching event before the message, undefined for MESSAGE
+ */
+const findOperation = (
+	receipt: TransactionReceipt | null | undefined,
+	log: Log,
+	messageType: string,
+): TokenOperation | undefined => {
+	const name = OPERATION_EVENTS[messageType];
+	if (!receipt || name === undefined) {
+		return undefined;
+	}
+
+	const topic = topicOf(name);
+	// EncryptedERC emits the operation right before the message, so the closest one belongs to the same call
+	const operations = receipt.logs.filter(
+		(candidate) =>
+			candidate.index < log.index &&
+			candidate.topics[0] === topic &&
+			getAddress(candidate.address) === getAddress(log.address),
+	);
+	const operation = operations[operations.length - 1];
+	if (operation === undefined) {
+		return undefined;
+	}
+
+	return {
+		name,
+		logIndex: operation.index,
+		args: EVENTS.decodeEventLog(name, operation.data, operation.topics),
+	};
+};
+
+/**
+ * Lists the PrivateMessage events of an address and decrypts them with its key
+ * messages that can not be decrypted, e.g. malformed or for another key, are kept in skipped instead of failing the scan
+ */
+export class MetadataInbox<T = string> {
+	readonly address: string;
+	readonly messages: InboxMessage<T>[] = [];
+	readonly skipped: SkippedMessage[] = [];
+
+	readonly #provider: Provider;
+	readonly #contract: string;
+	readonly #privateKey: bigint;
+	readonly #decrypt: (privateKey: bigint, encryptedMessage: string) => T;
+	readonly #blockRange: number;
+	readonly #includeSent: boolean;
+	#nextBlock: number;
+	#syncing?: Promise<InboxMessage<T>[]>;
+
+	/**
+	 * @param provider Provider to read the events with
+	 * @param contractAddress Address of the EncryptedERC contract
+	 * @param address Address of the inbox owner
+	 * @param privateKey Private key of the owner, same format as User.privateKey
+	 * @param options Inbox options, decrypt is required unless the content is a string
+	 */
+	constructor(
+		provider: Provider,
+		contractAddress: string,
+		address: string,
+		privateKey: bigint,
+		...options: string extends T
+			? [options?: MetadataInboxOptions<T>]
+			: [
+					options: MetadataInboxOptions<T> &
+						Required<Pick<MetadataInboxOptions<T>, "decrypt">>,
+				]
+	);
+	constructor(
+		provider: Provider,
+		contractAddress: string,
+		address: string,
+		privateKey: bigint,
+		options: MetadataInboxOptions<T> = {},
+	) {
+		const blockRange = options.blockRange ?? DEFAULT_INBOX_BLOCK_RANGE;
+		if (!Number.isInteger(blockRange) || blockRange < 1) {
+			throw new Error(`Invalid block range: ${blockRange}`);
+		}
+
+		this.address = getAddress(address);
+		this.#provider = provider;
+		this.#contract = getAddress(contractAddress);
+		this.#privateKey = privateKey;
+		// without decrypt the overload above only allows a string content
+		this.#decrypt =
+			options.decrypt ??
+			(decryptMetadata as (privateKey: bigint, encryptedMessage: string) => T);
+		this.#blockRange = blockRange;
+		this.#includeSent = options.includeSent ?? false;
+		this.#nextBlock = options.fromBlock ?? 0;
+	}
+
+	/**
+	 * @returns Last block scanned, -1 before the first sync
+	 */
+	get lastScannedBlock(): number {
+		return this.#nextBlock - 1;
+	}
+
+	/**
+	 * Scans the blocks since the last sync, one page of blockRange blocks at a time
+	 * if a request fails, the next sync resumes from the first page that was not scanned.
+	 * A sync called while another one runs returns the running one, so pages are never scanned twice
+	 * @param toBlock Last block to scan, defaults to the latest block, ignored while another sync runs
+	 * @returns Messages found in the new blocks
+	 */
+	sync(toBlock?: number): Promise<InboxMessage<T>[]> {
+		this.#syncing ??= this.#sync(toBlock).finally(() => {
+			this.#syncing = undefined;
+		});
+		return this.#syncing;
+	}
+
+	/**
+	 * @returns Messages grouped by messageType, in the order they were sent
+	 */
+	byType(): Record<string, InboxMessage<T>[]> {
+		const groups: Record<string, InboxMessage<T>[]> = {};
+		for (const message of this.messages) {
+			groups[message.messageType] ??= [];
+			groups[message.messageType].push(message);
+		}
+		return groups;
+	}
+
+	/**
+	 * Scans the pages up to a block, see sync
+	 * @param toBlock Last block to scan, defaults to the latest block
+	 * @returns Messages found in the new blocks
+	 */
+	async #sync(toBlock?: number): Promise<InboxMessage<T>[]> {
+		const lastBlock = toBlock ?? (await this.#provider.getBlockNumber());
+		const found: InboxMessage<T>[] = [];
+
+		while (this.#nextBlock <= lastBlock) {
+			const pageEnd = Math.min(
+				this.#nextBlock + this.#blockRange - 1,
+				lastBlock,
+			);
+			const { messages, skipped } = await this.#scanPage(
+				this.#nextBlock,
+				pageEnd,
+			);
+
+			// committed together, so a page that fails half way is not partly recorded when the next sync retries it
+			this.messages.push(...messages);
+			this.skipped.push(...skipped);
+			found.push(...messages);
+			this.#nextBlock = pageEnd + 1;
+		}
+
+		return found;
+	}
+
+	/**
+	 * Reads and decrypts the PrivateMessage events of a block range
+	 * @param fromBlock First block of the page
+	 * @param toBlock Last block of the page
+	 * @returns Decrypted and skipped messages of the page
+	 */
+	async #scanPage(
+		fromBlock: number,
+		toBlock: number,
+	): Promise<{ messages: InboxMessage<T>[]; skipped: SkippedMessage[] }> {
+		const topic = topicOf("PrivateMessage");
+		const owner = zeroPadValue(this.address, 32);
+
+		const filters: (string | null)[][] = [[topic, null, owner]];
+		if (this.#includeSent) {
+			filters.push([topic, owner]);
+		}
+
+		// messages sent to oneself, e.g. with a withdraw, match both filters
+		const logs = new Map<string, Log>();
+		for (const topics of filters) {
+			const page = await this.#provider.getLogs({
+				address: this.#contract,
+				topics,
+				fromBlock,
+				toBlock,
+			});
+			for (const log of page) {
+				logs.set(`${log.transactionHash}:${log.index}`, log);
+			}
+		}
+
+		const receipts = new Map<string, Promise<TransactionReceipt | null>>();
+		const messages: InboxMessage<T>[] = [];
+		const skipped: SkippedMessage[] = [];
+		for (const log of [...logs.values()].sort(
+			(a, b) => a.blockNumber - b.blockNumber || a.index - b.index,
+		)) {
+			const parsed = EVENTS.parseLog(log);
+			if (parsed === null) {
+				continue;
+			}
+			const { messageFrom, messageTo, messageType, encryptedMsg } =
+				parsed.args.metadata;
+			const event: InboxEvent = {
+				from: messageFrom,
+				to: messageTo,
+				messageType,
+				encryptedMessage: encryptedMsg,
+				blockNumber: log.blockNumber,
+				transactionHash: log.transactionHash,
+				logIndex: log.index,
+			};
+
+			let content: T;
+			try {
+				content = this.#decrypt(this.#privateKey, encryptedMsg);
+			} catch (error) {
+				if (!(error instanceof InvalidMetadataError)) {
+					throw error;
+				}
+				skipped.push({ ...event, error });
+				continue;
+			}
+
+			if (!receipts.has(log.transactionHash)) {
+				receipts.set(
+					log.transactionHash,
+					this.#provider.getTransactionReceipt(log.transactionHash),
+				);
+			}
+			const operation = findOperation(
+				await receipts.get(log.transactionHash),
+				log,
+				messageType,
+			);
+
+			messages.push({ ...event, content, operation });
+		}
+
+		return { messages, skipped };
+	}
+}
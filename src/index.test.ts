@@ -0,0 +1,147 @@
+import { readFileSync, readdirSync } from "node:fs";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { Wallet } from "ethers";
+import { describe, expect, it } from "vitest";
+import {
+	createSeededRandomSource,
+	decryptEnvelope,
+	decryptKeystore,
+	decryptMessage,
+	decryptMetadata,
+	decryptMetadataBytes,
+	decryptMetadataForRecipient,
+	deriveKeyFromSigner,
+	encryptEnvelope,
+	encryptKeystore,
+	encryptMessage,
+	encryptMetadata,
+	encryptMetadataBytes,
+	encryptMetadataForRecipients,
+	getKeyPair,
+	processPoseidonDecryption,
+	processPoseidonEncryption,
+	signEnvelope,
+} from "./index";
+
+// runs src as ESM without a DOM, the same way a web wallet bundles it
+// the hardhat suites in test/ cover the protocol, these only check that src works on its own
+const rng = createSeededRandomSource(1n);
+const sender = getKeyPair(BigInt(Wallet.createRandom().privateKey));
+const receiver = getKeyPair(BigInt(Wallet.createRandom().privateKey));
+
+describe("src", () => {
+	it("should not import node modules", () => {
+		// src/node.ts holds the node-only helpers and is not exported from src/index.ts
+		const here = fileURLToPath(new URL(".", import.meta.url));
+		const files = (dir: string): string[] =>
+			readdirSync(dir, { withFileTypes: true }).flatMap((entry) =>
+				entry.isDirectory()
+					? files(join(dir, entry.name))
+					: [join(dir, entry.name)],
+			);
+		const sources = files(here).filter(
+			(file) =>
+				file.endsWith(".ts") &&
+				!file.endsWith(".test.ts") &&
+				file !== join(here, "node.ts"),
+		);
+
+		for (const file of sources) {
+			const source = readFileSync(file, "utf8");
+			// @zk-kit/eddsa-poseidon only loads through a bundler, see src/eddsa.ts
+			expect(source, file).not.toMatch(
+				/from "(node:|maci-crypto|hardhat|@zk-kit\/eddsa-poseidon)/,
+			);
+			expect(source, file).not.toMatch(/\bBuffer\./);
+		}
+	});
+
+	it("should derive keys from a wallet signature", async () => {
+		const wallet = Wallet.createRandom();
+		const registrar = Wallet.createRandom().address;
+
+		const first = await deriveKeyFromSigner(wallet, 43114n, registrar);
+		const second = await deriveKeyFromSigner(wallet, 43114n, registrar);
+		expect(first).toEqual(second);
+	});
+
+	it("should encrypt and decrypt el-gamal amounts", () => {
+		const { cipher } = encryptMessage(
+			receiver.publicKey,
+			1234n,
+			undefined,
+			rng,
+		);
+
+		// a small range, the default 2^32 table takes a while to build
+		expect(
+			decryptMessage(receiver.privateKey, cipher[0], cipher[1], {
+				maxValue: 10000n,
+			}),
+		).toBe(1234n);
+	});
+
+	it("should encrypt and decrypt PCTs", () => {
+		const { ciphertext, authKey, nonce } = processPoseidonEncryption(
+			[42n],
+			receiver.publicKey,
+			rng,
+		);
+
+		expect(
+			processPoseidonDecryption(
+				ciphertext,
+				authKey,
+				nonce,
+				receiver.privateKey,
+				1,
+			),
+		).toEqual([42n]);
+	});
+
+	it("should encrypt and decrypt metadata", () => {
+		const text = encryptMetadata(receiver.publicKey, "Hello, 世界", rng);
+		expect(decryptMetadata(receiver.privateKey, text)).toBe("Hello, 世界");
+
+		const bytes = new Uint8Array([0, 1, 2, 0]);
+		const binary = encryptMetadataBytes(receiver.publicKey, bytes, rng);
+		expect(decryptMetadataBytes(receiver.privateKey, binary)).toEqual(bytes);
+
+		const shared = encryptMetadataForRecipients(
+			[sender.publicKey, receiver.publicKey],
+			bytes,
+			rng,
+		);
+		for (const { privateKey } of [sender, receiver]) {
+			expect(decryptMetadataForRecipient(privateKey, shared)).toEqual(bytes);
+		}
+	});
+
+	it("should sign and verify envelopes", () => {
+		const envelope = signEnvelope(
+			{ content: { type: "text", text: "invoice 42" } },
+			sender.privateKey,
+			receiver.publicKey,
+		);
+		const encrypted = encryptEnvelope(receiver.publicKey, envelope, rng);
+
+		const decrypted = decryptEnvelope(
+			receiver.privateKey,
+			encrypted,
+			sender.publicKey,
+		);
+		expect(decrypted.content).toEqual(envelope.content);
+	});
+
+	it("should encrypt and decrypt keystores with Web Crypto", async () => {
+		const keystore = await encryptKeystore(sender.privateKey, "password", {
+			chainId: 43114n,
+			registrarAddress: Wallet.createRandom().address,
+			kdf: "pbkdf2",
+			pbkdf2Iterations: 1000,
+		});
+
+		expect(await decryptKeystore(keystore, "password")).toEqual(sender);
+	});
+});
@@ -2,3 +2,14 @@ export * from "./jub";
 export * from "./poseidon";
 export * from "./constants";
 export * from "./metadata";
+export * from "./envelope";
+export * from "./inbox";
+export * from "./chunked";
+export * from "./random";
+export * from "./codec";
+export * from "./types";
+export * from "./keys";
+export * from "./keystore";
+export * from "./threshold";
+export * from "./viewing";
+export * from "./balance";
@@ -0,0 +1,218 @@
+import {
+	Base8,
+	Fr,
+	type Point,
+	addPoint,
+	mulPointEscalar,
+} from "@zk-kit/baby-jubjub";
+import { toBigInt, toUtf8Bytes } from "ethers";
+import { poseidon12 } from "poseidon-lite";
+import { BASE_POINT_ORDER } from "../constants";
+import { formatPrivKeyForBabyJub } from "../keys";
+import { type RandomSource, cryptoRandomSource, randomScalar } from "../random";
+import { decryptPoint } from "./jub";
+import { isOnCurve, validateCiphertext, validatePublicKey } from "./validation";
+
+// domain separator of the Fiat-Shamir challenge, the utf-8 bytes of the tag as a field element
+const DECRYPTION_PROOF_DOMAIN = toBigInt(toUtf8Bytes("eERC decryption proof"));
+
+/**
+ * Non-interactive Chaum-Pedersen proof that log_Base8(publicKey) == log_base(point)
+ * without revealing the secret scalar
+ */
+export interface ChaumPedersenProof {
+	// commitment k * Base8
+	a: bigint[];
+	// commitment k * base
+	b: bigint[];
+	// response k + challenge * secret (mod BASE_POINT_ORDER)
+	z: bigint;
+}
+
+/**
+ * Chaum-Pedersen proof that an El-Gamal ciphertext decrypts to a claimed amount,
+ * i.e. that log_Base8(publicKey) == log_c1(c2 - amount * Base8)
+ */
+export type DecryptionProof = ChaumPedersenProof;
+
+/**
+ * Fiat-Shamir challenge of a Chaum-Pedersen proof, must bind the statement and both commitments
+ */
+export type ChaumPedersenChallenge = (a: bigint[], b: bigint[]) => bigint;
+
+/**
+ * Computes the Fiat-Shamir challenge of a decryption proof
+ * @param publicKey Public key of the prover
+ * @param c1 First part of the cipher
+ * @param c2 Second part of the cipher
+ * @param amount Claimed amount
+ * @param a Commitment k * Base8
+ * @param b Commitment k * c1
+ * @returns Challenge modulo BASE_POINT_ORDER
+ */
+const decryptionChallenge = (
+	publicKey: bigint[],
+	c1: bigint[],
+	c2: bigint[],
+	amount: bigint,
+	a: bigint[],
+	b: bigint[],
+): bigint =>
+	poseidon12([
+		DECRYPTION_PROOF_DOMAIN,
+		...publicKey,
+		...c1,
+		...c2,
+		amount,
+		...a,
+		...b,
+	]) % BASE_POINT_ORDER;
+
+/**
+ * Computes c2 - amount * Base8, which is privateKey * c1 if the ciphertext decrypts to amount
+ * @param c2 Second part of the cipher
+ * @param amount Claimed amount
+ * @returns Shared secret point
+ */
+const sharedSecret = (c2: bigint[], amount: bigint): Point<bigint> => {
+	const message = mulPointEscalar(Base8, amount);
+	return addPoint(c2 as Point<bigint>, [Fr.e(message[0] * -1n), message[1]]);
+};
+
+/**
+ * Proves that log_Base8(secret * Base8) == log_base(secret * base)
+ * @param secret Secret scalar, reduced modulo BASE_POINT_ORDER
+ * @param base Second base point, e.g. c1 of a ciphertext
+ * @param challenge Fiat-Shamir challenge of the statement
+ * @param rng Random source for the proof nonce
+ * @returns Chaum-Pedersen proof
+ */
+export const proveChaumPedersen = (
+	secret: bigint,
+	base: bigint[],
+	challenge: ChaumPedersenChallenge,
+	rng: RandomSource = cryptoRandomSource,
+): ChaumPedersenProof => {
+	const k = randomScalar(rng);
+	const a = mulPointEscalar(Base8, k);
+	const b = mulPointEscalar(base as Point<bigint>, k);
+
+	return { a, b, z: (k + challenge(a, b) * secret) % BASE_POINT_ORDER };
+};
+
+/**
+ * Verifies a proof created with proveChaumPedersen, the points must already be validated
+ * @param publicKey secret * Base8
+ * @param base Second base point
+ * @param point Claimed secret * base
+ * @param proof Chaum-Pedersen proof
+ * @param challenge Fiat-Shamir challenge of the statement
+ * @returns True if both points have the same discrete log
+ */
+export const verifyChaumPedersen = (
+	publicKey: bigint[],
+	base: bigint[],
+	point: bigint[],
+	proof: ChaumPedersenProof,
+	challenge: ChaumPedersenChallenge,
+): boolean => {
+	const { a, b, z } = proof;
+	if (z < 0n || z >= BASE_POINT_ORDER || !isOnCurve(a) || !isOnCurve(b)) {
+		return false;
+	}
+
+	const c = challenge(a, b);
+
+	// z * Base8 == a + c * publicKey
+	const lhs1 = mulPointEscalar(Base8, z);
+	const rhs1 = addPoint(
+		a as Point<bigint>,
+		mulPointEscalar(publicKey as Point<bigint>, c),
+	);
+
+	// z * base == b + c * point
+	const lhs2 = mulPointEscalar(base as Point<bigint>, z);
+	const rhs2 = addPoint(
+		b as Point<bigint>,
+		mulPointEscalar(point as Point<bigint>, c),
+	);
+
+	return (
+		lhs1[0] === rhs1[0] &&
+		lhs1[1] === rhs1[1] &&
+		lhs2[0] === rhs2[0] &&
+		lhs2[1] === rhs2[1]
+	);
+};
+
+/**
+ * Proves that an El-Gamal ciphertext decrypts to an amount without revealing the private key,
+ * e.g. to disclose a balance that a counterparty can check against the balanceOf ciphertext
+ * @param privateKey Private key the ciphertext is encrypted for
+ * @param cipher Ciphertext [c1, c2]
+ * @param amount Amount the ciphertext decrypts to
+ * @param rng Random source for the proof nonce
+ * @returns Decryption proof
+ */
+export const proveDecryption = (
+	privateKey: bigint,
+	cipher: bigint[][],
+	amount: bigint,
+	rng: RandomSource = cryptoRandomSource,
+): DecryptionProof => {
+	const [c1, c2] = cipher;
+	if (amount < 0n || amount >= BASE_POINT_ORDER) {
+		throw new Error("Invalid amount: must be in [0, BASE_POINT_ORDER)");
+	}
+
+	const decrypted = decryptPoint(privateKey, c1, c2);
+	const expected = mulPointEscalar(Base8, amount);
+	if (decrypted[0] !== expected[0] || decrypted[1] !== expected[1]) {
+		throw new Error("Ciphertext does not decrypt to the claimed amount");
+	}
+
+	const secret = formatPrivKeyForBabyJub(privateKey) % BASE_POINT_ORDER;
+	const publicKey = mulPointEscalar(Base8, secret);
+
+	return proveChaumPedersen(
+		secret,
+		c1,
+		(a, b) => decryptionChallenge(publicKey, c1, c2, amount, a, b),
+		rng,
+	);
+};
+
+/**
+ * Verifies a proof created with proveDecryption
+ * @param publicKey Public key of the prover, e.g. from Registrar.getUserPublicKey
+ * @param cipher Ciphertext [c1, c2], e.g. from balanceOf
+ * @param amount Claimed amount
+ * @param proof Decryption proof
+ * @param validate Validates the public key and the ciphertext, only skip it for trusted inputs
+ * @returns True if the ciphertext decrypts to amount under the public key
+ */
+export const verifyDecryption = (
+	publicKey: bigint[],
+	cipher: bigint[][],
+	amount: bigint,
+	proof: DecryptionProof,
+	validate = true,
+): boolean => {
+	const [c1, c2] = cipher;
+	if (validate) {
+		validatePublicKey(publicKey);
+		validateCiphertext(c1, c2);
+	}
+
+	if (amount < 0n || amount >= BASE_POINT_ORDER) {
+		return false;
+	}
+
+	return verifyChaumPedersen(
+		publicKey,
+		c1,
+		sharedSecret(c2, amount),
+		proof,
+		(a, b) => decryptionChallenge(publicKey, c1, c2, amount, a, b),
+	);
+};
@@ -0,0 +1,152 @@
+import {
+	Base8,
+	Fr,
+	type Point,
+	addPoint,
+	mulPointEscalar,
+} from "@zk-kit/baby-jubjub";
+import { decryptPoint } from "./jub";
+import { isUninitializedCiphertext } from "./validation";
+
+// by default amounts up to 2^32 token base units can be recovered
+export const DEFAULT_DLOG_MAX_VALUE = 2n ** 32n;
+
+/**
+ * Lookup table for the baby steps of the baby-step giant-step algorithm
+ * maps the x coordinate of i * Base8 to i for 0 <= i < size
+ * (a plain Map<bigint, number> satisfies this interface)
+ */
+export interface BabyStepTable {
+	readonly size: number;
+	get(x: bigint): number | undefined;
+}
+
+export interface DiscreteLogOptions {
+	// upper bound (exclusive) of the scalar to search for
+	maxValue?: bigint;
+	// number of baby steps, defaults to ceil(sqrt(maxValue))
+	babySteps?: number;
+	// precomputed baby-step table, takes precedence over babySteps
+	table?: BabyStepTable;
+}
+
+// baby-step tables are expensive to build, so they are cached per size
+const babyStepTables = new Map<number, Map<bigint, number>>();
+
+/**
+ * Computes the ceiling of the square root of a bigint
+ * @param value Value to compute the square root of
+ * @returns ceil(sqrt(value))
+ */
+const ceilSqrt = (value: bigint): bigint => {
+	if (value < 2n) {
+		return value;
+	}
+
+	// newton's method for the integer square root
+	let x = value;
+	let y = (x + 1n) / 2n;
+	while (y < x) {
+		x = y;
+		y = (x + value / x) / 2n;
+	}
+
+	return x * x === value ? x : x + 1n;
+};
+
+/**
+ * Builds the baby-step table {x(i * Base8) => i} for 0 <= i < babySteps
+ * @param babySteps Number of consecutive multiples of Base8 to store
+ * @returns Baby-step table
+ */
+export const buildBabyStepTable = (babySteps: number): Map<bigint, number> => {
+	const cached = babyStepTables.get(babySteps);
+	if (cached) {
+		return cached;
+	}
+
+	const table = new Map<bigint, number>();
+	// starts from the identity point (0, 1)
+	let current: Point<bigint> = [0n, 1n];
+	for (let i = 0; i < babySteps; i++) {
+		table.set(current[0], i);
+		current = addPoint(current, Base8);
+	}
+
+	babyStepTables.set(babySteps, table);
+	return table;
+};
+
+/**
+ * Recovers the scalar m from the point m * Base8 with the baby-step giant-step algorithm
+ * @param point Point to solve the discrete logarithm for
+ * @param options Search range and baby-step table configuration
+ * @returns m - the scalar, or null if it is not in the [0, maxValue) range
+ */
+export const solveDiscreteLog = (
+	point: bigint[],
+	options: DiscreteLogOptions = {},
+): bigint | null => {
+	const maxValue = options.maxValue ?? DEFAULT_DLOG_MAX_VALUE;
+	const table =
+		options.table ??
+		buildBabyStepTable(options.babySteps ?? Number(ceilSqrt(maxValue)));
+
+	const stride = BigInt(table.size);
+	if (stride === 0n) {
+		return null;
+	}
+
+	// -(stride * Base8), on twisted edwards curves -(x, y) = (-x, y)
+	const strideStep = mulPointEscalar(Base8, stride);
+	const giantStep: Point<bigint> = [Fr.e(strideStep[0] * -1n), strideStep[1]];
+
+	let current = point as Point<bigint>;
+	for (let j = 0n; j * stride < maxValue; j++) {
+		const i = table.get(current[0]);
+		if (i !== undefined) {
+			const candidate = j * stride + BigInt(i);
+
+			// the last giant step can overshoot maxValue when it is not a multiple of the stride,
+			// x coordinate only identifies the point inside the prime order subgroup
+			const expected = mulPointEscalar(Base8, candidate);
+			if (
+				candidate < maxValue &&
+				expected[0] === point[0] &&
+				expected[1] === point[1]
+			) {
+				return candidate;
+			}
+		}
+
+		current = addPoint(current, giantStep);
+	}
+
+	return null;
+};
+
+/**
+ * Decrypts an El-Gamal ciphertext all the way to the encrypted scalar
+ * @param privateKey Private key to decrypt the ciphertext
+ * @param c1 First part of the cipher
+ * @param c2 Second part of the cipher
+ * @param options Search range and baby-step table configuration
+ * @param validate Validates the ciphertext points, only skip it for trusted ciphertexts
+ * @returns The decrypted scalar, 0 for the [0, 0] eGCT of an account that never received funds, or null if it is not in the [0, maxValue) range
+ */
+export const decryptMessage = (
+	privateKey: bigint,
+	c1: bigint[],
+	c2: bigint[],
+	options: DiscreteLogOptions = {},
+	validate = true,
+): bigint | null => {
+	// skips building the baby-step table
+	if (isUninitializedCiphertext(c1, c2)) {
+		return 0n;
+	}
+
+	const point = decryptPoint(privateKey, c1, c2, validate);
+
+	return solveDiscreteLog(point, options);
+};
@@ -0,0 +1,106 @@
+import { Fr, type Point, addPoint, mulPointEscalar } from "@zk-kit/baby-jubjub";
+import { BASE_POINT_ORDER } from "../constants";
+
+// mirrors the functions in contracts/libraries/BabyJubJub.sol, so the results
+// match the encrypted balances computed on-chain
+
+/**
+ * Negates a BabyJubJub point, same as BabyJubJub.negate
+ * @param point Point to negate
+ * @returns -(point)
+ */
+const negatePoint = (point: bigint[]): Point<bigint> => [
+	Fr.e(point[0] * -1n),
+	point[1],
+];
+
+/**
+ * Adds two El-Gamal ciphertexts, same as calling BabyJubJub._add on c1 and c2
+ * @param a First ciphertext [c1, c2]
+ * @param b Second ciphertext [c1, c2]
+ * @returns Ciphertext encrypting the sum of the two messages
+ */
+export const addCiphertexts = (
+	a: bigint[][],
+	b: bigint[][],
+): [bigint[], bigint[]] => [
+	addPoint(a[0] as Point<bigint>, b[0] as Point<bigint>),
+	addPoint(a[1] as Point<bigint>, b[1] as Point<bigint>),
+];
+
+/**
+ * Negates an El-Gamal ciphertext, same as calling BabyJubJub.negate on c1 and c2
+ * @param a Ciphertext [c1, c2]
+ * @returns Ciphertext encrypting the negated message
+ */
+export const negateCiphertext = (a: bigint[][]): [bigint[], bigint[]] => [
+	negatePoint(a[0]),
+	negatePoint(a[1]),
+];
+
+/**
+ * Subtracts an El-Gamal ciphertext from another, same as calling BabyJubJub._sub on c1 and c2
+ * @param a Ciphertext to subtract from [c1, c2]
+ * @param b Ciphertext to subtract [c1, c2]
+ * @returns Ciphertext encrypting the difference of the two messages
+ */
+export const subCiphertexts = (
+	a: bigint[][],
+	b: bigint[][],
+): [bigint[], bigint[]] => addCiphertexts(a, negateCiphertext(b));
+
+/**
+ * Multiplies an El-Gamal ciphertext by a scalar, same as calling BabyJubJub.scalarMultiply on c1 and c2
+ * the scalar is reduced modulo the base point order just like on-chain
+ * @param a Ciphertext [c1, c2]
+ * @param scalar Scalar to multiply with
+ * @returns Ciphertext encrypting the message multiplied by the scalar
+ */
+export const scalarMulCiphertext = (
+	a: bigint[][],
+	scalar: bigint,
+): [bigint[], bigint[]] => {
+	const remaining = scalar % BASE_POINT_ORDER;
+
+	return [
+		mulPointEscalar(a[0] as Point<bigint>, remaining),
+		mulPointEscalar(a[1] as Point<bigint>, remaining),
+	];
+};
+
+/**
+ * Checks if an encrypted balance is uninitialized, i.e. both points are (0, 0)
+ * @param balance Encrypted balance [c1, c2]
+ * @returns True if the balance was never set on-chain
+ */
+const isUninitialized = (balance: bigint[][]): boolean =>
+	balance[0][0] === 0n && balance[0][1] === 0n;
+
+/**
+ * Predicts the encrypted balance after an amount is added to it, same as EncryptedUserBalances._addToUserBalance
+ * @param balance Current encrypted balance [c1, c2] from balanceOf
+ * @param amount Encrypted amount [c1, c2] that is added
+ * @returns Encrypted balance after the transaction
+ */
+export const addToEncryptedBalance = (
+	balance: bigint[][],
+	amount: bigint[][],
+): [bigint[], bigint[]] => {
+	// uninitialized balances are overwritten on-chain
+	if (isUninitialized(balance)) {
+		return [[...amount[0]], [...amount[1]]];
+	}
+
+	return addCiphertexts(balance, amount);
+};
+
+/**
+ * Predicts the encrypted balance after an amount is subtracted from it, same as EncryptedUserBalances._subtractFromUserBalance
+ * @param balance Current encrypted balance [c1, c2] from balanceOf
+ * @param amount Encrypted amount [c1, c2] that is subtracted
+ * @returns Encrypted balance after the transaction
+ */
+export const subtractFromEncryptedBalance = (
+	balance: bigint[][],
+	amount: bigint[][],
+): [bigint[], bigint[]] => subCiphertexts(balance, amount);
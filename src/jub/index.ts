@@ -1 +1,6 @@
 export * from "./jub";
+export * from "./dlog";
+export * from "./table";
+export * from "./homomorphic";
+export * from "./validation";
+export * from "./disclosure";
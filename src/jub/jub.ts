@@ -5,23 +5,44 @@ import {
 	addPoint,
 	mulPointEscalar,
 } from "@zk-kit/baby-jubjub";
-import { formatPrivKeyForBabyJub, genRandomBabyJubValue } from "maci-crypto";
 import { BASE_POINT_ORDER } from "../constants";
+import { formatPrivKeyForBabyJub } from "../keys";
+import {
+	type RandomSource,
+	cryptoRandomSource,
+	randomBabyJubValue,
+} from "../random";
+import {
+	isUninitializedCiphertext,
+	validateCiphertext,
+	validatePoint,
+	validatePublicKey,
+} from "./validation";
 
 /**
  * Implements El-Gamal encryption on BabyJubJub curve
  * @param publicKey BabyJubJub public key
  * @param point Point to encrypt
- * @param random Randomness for the encryption
+ * @param random Randomness for the encryption, sampled from rng if not provided
+ * @param rng Random source
+ * @param validate Validates the public key and the point, only skip it for trusted inputs
  * @returns [c1,c2] - returns 2 different points as a ciphertext
  */
 export const encryptPoint = (
 	publicKey: bigint[],
 	point: bigint[],
-	random = genRandomBabyJubValue(),
+	random?: bigint,
+	rng: RandomSource = cryptoRandomSource,
+	validate = true,
 ): [Point<bigint>, Point<bigint>] => {
-	const c1 = mulPointEscalar(Base8, random);
-	const pky = mulPointEscalar(publicKey as Point<bigint>, random);
+	if (validate) {
+		validatePublicKey(publicKey);
+		validatePoint(point);
+	}
+
+	const encRandom = random ?? randomBabyJubValue(rng);
+	const c1 = mulPointEscalar(Base8, encRandom);
+	const pky = mulPointEscalar(publicKey as Point<bigint>, encRandom);
 	const c2 = addPoint(point as Point<bigint>, pky);
 
 	return [c1, c2];
@@ -31,22 +52,31 @@ export const encryptPoint = (
  * Implements El-Gamal encryption on scalar message on BabyJubJub curve
  * @param publicKey Public key to encrypt the message
  * @param message  Message to encrypt
- * @param random Randomness for the encryption
+ * @param random Randomness for the encryption, sampled from rng if not provided
+ * @param rng Random source
+ * @param validate Validates the public key, only skip it for trusted keys
  * @returns { cipher: [c1,c2], random: bigint } - returns 2 different points as a ciphertext and the randomness used
  */
 export const encryptMessage = (
 	publicKey: bigint[],
 	message: bigint,
-	random = genRandomBabyJubValue(),
+	random?: bigint,
+	rng: RandomSource = cryptoRandomSource,
+	validate = true,
 ): { cipher: [bigint[], bigint[]]; random: bigint } => {
-	let encRandom = random;
+	if (validate) {
+		validatePublicKey(publicKey);
+	}
+
+	let encRandom = random ?? randomBabyJubValue(rng);
 	if (encRandom >= BASE_POINT_ORDER) {
-		encRandom = genRandomBabyJubValue() / 100n;
+		encRandom = randomBabyJubValue(rng) / 100n;
 	}
 	const p = mulPointEscalar(Base8, message);
 
 	return {
-		cipher: encryptPoint(publicKey, p, encRandom),
+		// the message point is a multiple of Base8, no need to validate it again
+		cipher: encryptPoint(publicKey, p, encRandom, rng, false),
 		random: encRandom,
 	};
 };
@@ -56,16 +86,62 @@ export const encryptMessage = (
  * @param privateKey - Private key to decrypt the point
  * @param c1 - First part of the cipher
  * @param c2 - Second part of the cipher
- * @returns Point - returns the decrypted point
+ * @param validate - Validates the ciphertext points, only skip it for trusted ciphertexts
+ * @returns Point - returns the decrypted point, the identity for the [0, 0] eGCT of an account that never received funds
  */
 export const decryptPoint = (
 	privateKey: bigint,
 	c1: bigint[],
 	c2: bigint[],
+	validate = true,
 ): bigint[] => {
+	if (isUninitializedCiphertext(c1, c2)) {
+		return [0n, 1n];
+	}
+	if (validate) {
+		validateCiphertext(c1, c2);
+	}
+
 	const privKey = formatPrivKeyForBabyJub(privateKey);
 
 	const c1x = mulPointEscalar(c1 as Point<bigint>, privKey);
 	const c1xInverse = [Fr.e(c1x[0] * -1n), c1x[1]];
 	return addPoint(c2 as Point<bigint>, c1xInverse as Point<bigint>);
 };
+
+/**
+ * Re-randomizes an El-Gamal ciphertext by adding a fresh encryption of zero to it
+ * the result decrypts to the same point but can not be linked to the original ciphertext
+ * without knowing the private key
+ * @param publicKey Public key the ciphertext is encrypted for
+ * @param cipher Ciphertext [c1, c2] to re-randomize
+ * @param random Randomness for the encryption of zero, sampled from rng if not provided
+ * @param rng Random source
+ * @param validate Validates the public key and the ciphertext, only skip it for trusted inputs
+ * @returns [c1,c2] - returns the re-randomized ciphertext
+ */
+export const rerandomize = (
+	publicKey: bigint[],
+	cipher: bigint[][],
+	random?: bigint,
+	rng: RandomSource = cryptoRandomSource,
+	validate = true,
+): [Point<bigint>, Point<bigint>] => {
+	if (validate) {
+		validatePublicKey(publicKey);
+		validateCiphertext(cipher[0], cipher[1]);
+	}
+
+	const [zeroC1, zeroC2] = encryptPoint(
+		publicKey,
+		[0n, 1n],
+		random,
+		rng,
+		false,
+	);
+
+	return [
+		addPoint(cipher[0] as Point<bigint>, zeroC1),
+		addPoint(cipher[1] as Point<bigint>, zeroC2),
+	];
+};
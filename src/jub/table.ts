@@ -0,0 +1,223 @@
+import { Base8, type Point, addPoint } from "@zk-kit/baby-jubjub";
+import { BASE_POINT_ORDER } from "../constants";
+import type { BabyStepTable } from "./dlog";
+
+/**
+ * Binary layout of a precomputed baby-step table file (all integers little-endian)
+ *
+ * header (32 bytes)
+ *   0..4    magic "eDLT"
+ *   4       format version
+ *   5       key size in bytes
+ *   6..8    reserved
+ *   8..12   number of baby steps (u32)
+ *   12..16  number of slots (u32, power of two)
+ *   16..20  crc32 checksum
+ *   20..32  reserved
+ *
+ * slots (12 bytes each), open addressing with linear probing
+ *   0..8    low 64 bits of the x coordinate of i * Base8
+ *   8..12   i + 1 (u32), 0 marks an empty slot
+ *
+ * the checksum covers Base8, BASE_POINT_ORDER, the first 16 bytes of the header and all slots,
+ * so a table generated for another generator is rejected as well
+ */
+const TABLE_MAGIC = [0x65, 0x44, 0x4c, 0x54]; // "eDLT"
+const TABLE_VERSION = 1;
+const TABLE_KEY_SIZE = 8;
+const TABLE_HEADER_SIZE = 32;
+const TABLE_SLOT_SIZE = 12;
+const KEY_MASK = 2n ** 64n - 1n;
+
+// crc32 lookup table for the IEEE polynomial
+const CRC32_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for (let i = 0; i < 256; i++) {
+		let c = i;
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		}
+		table[i] = c >>> 0;
+	}
+	return table;
+})();
+
+/**
+ * Computes the crc32 checksum over the given byte arrays
+ * @param parts Byte arrays to checksum in order
+ * @returns crc32 checksum
+ */
+const crc32 = (...parts: Uint8Array[]): number => {
+	let crc = 0xffffffff;
+	for (const part of parts) {
+		for (const byte of part) {
+			crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+		}
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Encodes the generator and the group order so they are bound to the checksum
+ * @returns Base8 x, Base8 y and BASE_POINT_ORDER as 32-byte big-endian words
+ */
+const generatorParams = (): Uint8Array => {
+	const params = new Uint8Array(96);
+	const view = new DataView(params.buffer);
+	[Base8[0], Base8[1], BASE_POINT_ORDER].forEach((value, i) => {
+		for (let j = 0; j < 4; j++) {
+			view.setBigUint64(
+				i * 32 + j * 8,
+				(value >> BigInt(64 * (3 - j))) & KEY_MASK,
+			);
+		}
+	});
+	return params;
+};
+
+/**
+ * Computes the checksum of a serialized table
+ * @param bytes Serialized table
+ * @returns crc32 checksum
+ */
+const tableChecksum = (bytes: Uint8Array): number =>
+	crc32(
+		generatorParams(),
+		bytes.subarray(0, 16),
+		bytes.subarray(TABLE_HEADER_SIZE),
+	);
+
+/**
+ * Computes the byte offset of a slot
+ * @param slot Slot index
+ * @returns Byte offset of the slot in the serialized table
+ */
+const slotOffset = (slot: number): number =>
+	TABLE_HEADER_SIZE + slot * TABLE_SLOT_SIZE;
+
+/**
+ * Generates the binary baby-step table {x(i * Base8) => i} for 0 <= i < babySteps
+ * @param babySteps Number of consecutive multiples of Base8 to store
+ * @returns Serialized table
+ */
+export const serializeBabyStepTable = (babySteps: number): Uint8Array => {
+	if (
+		!Number.isInteger(babySteps) ||
+		babySteps <= 0 ||
+		babySteps > 0xffffffff - 1 ||
+		BigInt(babySteps) >= BASE_POINT_ORDER
+	) {
+		throw new Error(`Invalid number of baby steps: ${babySteps}`);
+	}
+
+	// keeps the load factor at or below 1/2
+	let slots = 1;
+	while (slots < babySteps * 2) {
+		slots *= 2;
+	}
+	const mask = BigInt(slots - 1);
+
+	const bytes = new Uint8Array(TABLE_HEADER_SIZE + slots * TABLE_SLOT_SIZE);
+	const view = new DataView(bytes.buffer);
+
+	bytes.set(TABLE_MAGIC, 0);
+	view.setUint8(4, TABLE_VERSION);
+	view.setUint8(5, TABLE_KEY_SIZE);
+	view.setUint32(8, babySteps, true);
+	view.setUint32(12, slots, true);
+
+	// starts from the identity point (0, 1)
+	let current: Point<bigint> = [0n, 1n];
+	for (let i = 0; i < babySteps; i++) {
+		const key = current[0] & KEY_MASK;
+
+		let slot = Number(key & mask);
+		while (view.getUint32(slotOffset(slot) + TABLE_KEY_SIZE, true) !== 0) {
+			slot = (slot + 1) % slots;
+		}
+
+		view.setBigUint64(slotOffset(slot), key, true);
+		view.setUint32(slotOffset(slot) + TABLE_KEY_SIZE, i + 1, true);
+
+		current = addPoint(current, Base8);
+	}
+
+	view.setUint32(16, tableChecksum(bytes), true);
+
+	return bytes;
+};
+
+/**
+ * Baby-step table that is queried in place on its serialized bytes,
+ * without building a Map of all the points in memory
+ */
+export class PrecomputedBabyStepTable implements BabyStepTable {
+	readonly size: number;
+	private readonly slots: number;
+	private readonly view: DataView;
+
+	/**
+	 * @param bytes Serialized table, see serializeBabyStepTable
+	 */
+	constructor(bytes: Uint8Array) {
+		if (
+			bytes.length < TABLE_HEADER_SIZE ||
+			TABLE_MAGIC.some((byte, i) => bytes[i] !== byte)
+		) {
+			throw new Error("Invalid baby-step table: bad magic");
+		}
+
+		const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+		if (view.getUint8(4) !== TABLE_VERSION) {
+			throw new Error(
+				`Invalid baby-step table: unsupported version ${view.getUint8(4)}`,
+			);
+		}
+		if (view.getUint8(5) !== TABLE_KEY_SIZE) {
+			throw new Error("Invalid baby-step table: unsupported key size");
+		}
+
+		const size = view.getUint32(8, true);
+		const slots = view.getUint32(12, true);
+		if (
+			slots === 0 ||
+			(slots & (slots - 1)) !== 0 ||
+			size > slots ||
+			bytes.length !== slotOffset(slots)
+		) {
+			throw new Error("Invalid baby-step table: bad dimensions");
+		}
+
+		if (view.getUint32(16, true) !== tableChecksum(bytes)) {
+			throw new Error("Invalid baby-step table: checksum mismatch");
+		}
+
+		this.size = size;
+		this.slots = slots;
+		this.view = view;
+	}
+
+	/**
+	 * Looks up the index of a point by its x coordinate
+	 * @param x X coordinate of the point
+	 * @returns i such that x(i * Base8) matches, or undefined if the point is not in the table
+	 */
+	get(x: bigint): number | undefined {
+		const key = x & KEY_MASK;
+
+		let slot = Number(key & BigInt(this.slots - 1));
+		for (let probes = 0; probes < this.slots; probes++) {
+			const offset = slotOffset(slot);
+			const index = this.view.getUint32(offset + TABLE_KEY_SIZE, true);
+			if (index === 0) {
+				return undefined;
+			}
+			if (this.view.getBigUint64(offset, true) === key) {
+				return index - 1;
+			}
+			slot = (slot + 1) % this.slots;
+		}
+
+		return undefined;
+	}
+}
@@ -0,0 +1,109 @@
+import { type Point, inCurve, mulPointEscalar } from "@zk-kit/baby-jubjub";
+import { BASE_POINT_ORDER, BN254_SCALAR_FIELD } from "../constants";
+
+/**
+ * Thrown when a point is not a valid BabyJubJub point
+ */
+export class InvalidPointError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "InvalidPointError";
+	}
+}
+
+/**
+ * Thrown when a point does not lie on the BabyJubJub curve
+ */
+export class PointNotOnCurveError extends InvalidPointError {
+	constructor(name = "point") {
+		super(`Invalid ${name}: not on the BabyJubJub curve`);
+		this.name = "PointNotOnCurveError";
+	}
+}
+
+/**
+ * Thrown when a point lies on the curve but not in the prime-order subgroup generated by Base8
+ */
+export class PointNotInSubgroupError extends InvalidPointError {
+	constructor(name = "point") {
+		super(`Invalid ${name}: not in the BabyJubJub prime-order subgroup`);
+		this.name = "PointNotInSubgroupError";
+	}
+}
+
+/**
+ * Checks that a point has two canonical coordinates and lies on the curve
+ * @param point Point to check
+ * @returns True if the point is on the BabyJubJub curve
+ */
+export const isOnCurve = (point: bigint[]): boolean =>
+	point.length === 2 &&
+	point.every(
+		(coordinate) =>
+			typeof coordinate === "bigint" &&
+			coordinate >= 0n &&
+			coordinate < BN254_SCALAR_FIELD,
+	) &&
+	inCurve(point as Point<bigint>);
+
+/**
+ * Checks that a point is in the prime-order subgroup, i.e. BASE_POINT_ORDER * point is the identity
+ * this costs a full scalar multiplication
+ * @param point Point to check
+ * @returns True if the point is on the curve and in the subgroup
+ */
+export const isInSubgroup = (point: bigint[]): boolean => {
+	if (!isOnCurve(point)) {
+		return false;
+	}
+
+	const [x, y] = mulPointEscalar(point as Point<bigint>, BASE_POINT_ORDER);
+	return x === 0n && y === 1n;
+};
+
+/**
+ * Asserts that a point is on the curve and in the prime-order subgroup
+ * the identity [0, 1] is accepted, it is a valid subgroup element (e.g. the burn user's public key)
+ * @param point Point to validate
+ * @param name Name of the point for the error message
+ */
+export const validatePoint = (point: bigint[], name = "point") => {
+	if (!isOnCurve(point)) {
+		throw new PointNotOnCurveError(name);
+	}
+	if (!isInSubgroup(point)) {
+		throw new PointNotInSubgroupError(name);
+	}
+};
+
+/**
+ * Asserts that a public key is a valid BabyJubJub point, e.g. one fetched from Registrar.getUserPublicKey
+ * @param publicKey Public key to validate
+ */
+export const validatePublicKey = (publicKey: bigint[]) =>
+	validatePoint(publicKey, "public key");
+
+/**
+ * Checks if a ciphertext is the all-zero [0, 0] eGCT of an account that never received funds
+ * it is not a valid ciphertext, but it stands for a zero balance
+ * @param c1 First part of the cipher
+ * @param c2 Second part of the cipher
+ * @returns True if both points are [0, 0]
+ */
+export const isUninitializedCiphertext = (
+	c1: bigint[],
+	c2: bigint[],
+): boolean =>
+	c1.length === 2 &&
+	c2.length === 2 &&
+	[...c1, ...c2].every((coordinate) => coordinate === 0n);
+
+/**
+ * Asserts that both points of an El-Gamal ciphertext are valid BabyJubJub points
+ * @param c1 First part of the cipher
+ * @param c2 Second part of the cipher
+ */
+export const validateCiphertext = (c1: bigint[], c2: bigint[]) => {
+	validatePoint(c1, "ciphertext c1");
+	validatePoint(c2, "ciphertext c2");
+};
@@ -0,0 +1,97 @@
+import { Base8, mulPointEscalar, subOrder } from "@zk-kit/baby-jubjub";
+import { type BigNumberish, Signature, getAddress, keccak256 } from "ethers";
+import { deriveSecretScalar } from "./eddsa";
+
+// bumping the version derives a different key from the same wallet
+export const KEY_DERIVATION_VERSION = 1;
+
+export interface BabyJubKeyPair {
+	// private key, same format as genPrivKey()
+	privateKey: bigint;
+	// private key formatted for BabyJubJub, used in the circuits
+	formattedPrivateKey: bigint;
+	// BabyJubJub public key, Base8 * formattedPrivateKey
+	publicKey: bigint[];
+}
+
+// anything that can sign an EIP-191 personal message, e.g. an ethers Signer
+export interface MessageSigner {
+	signMessage(message: string): Promise<string>;
+}
+
+/**
+ * Builds the key derivation message, it is domain separated by the chain ID and the Registrar address
+ * so the same wallet gets an independent key for each eERC deployment
+ * @param chainId Chain ID of the network
+ * @param registrarAddress Address of the Registrar contract
+ * @returns Message to sign with personal_sign (EIP-191)
+ */
+export const getKeyDerivationMessage = (
+	chainId: BigNumberish,
+	registrarAddress: string,
+): string =>
+	[
+		"eERC Key Derivation",
+		"",
+		"Sign this message to derive your eERC encryption key.",
+		"Only sign it on applications you trust, the signature gives access to your encrypted balances.",
+		"",
+		`Chain ID: ${BigInt(chainId)}`,
+		`Registrar: ${getAddress(registrarAddress)}`,
+		`Version: ${KEY_DERIVATION_VERSION}`,
+	].join("\n");
+
+/**
+ * Formats a private key into a BabyJubJub scalar, same as formatPrivKeyForBabyJub in maci-crypto
+ * which can not be imported in browsers as it requires node:crypto
+ * @param privateKey Private key
+ * @returns Secret scalar
+ */
+export const formatPrivKeyForBabyJub = (privateKey: bigint): bigint =>
+	deriveSecretScalar(privateKey);
+
+/**
+ * Builds the BabyJubJub key pair for a private key, same as the User class in the tests
+ * @param privateKey Private key
+ * @returns Key pair
+ */
+export const getKeyPair = (privateKey: bigint): BabyJubKeyPair => {
+	const formattedPrivateKey = formatPrivKeyForBabyJub(privateKey) % subOrder;
+	const publicKey = mulPointEscalar(Base8, formattedPrivateKey).map((x) =>
+		BigInt(x),
+	);
+
+	return { privateKey, formattedPrivateKey, publicKey };
+};
+
+/**
+ * Derives the BabyJubJub key pair from a signature over the key derivation message
+ * the signature is normalized first, so the legacy (27/28) and the compact (0/1) v values derive the same key
+ * @param signature Signature over getKeyDerivationMessage
+ * @returns Key pair
+ */
+export const deriveKeyFromSignature = (signature: string): BabyJubKeyPair => {
+	const normalized = Signature.from(signature).serialized;
+	const privateKey = BigInt(keccak256(normalized));
+
+	return getKeyPair(privateKey);
+};
+
+/**
+ * Asks a wallet to sign the key derivation message and derives the BabyJubJub key pair from it
+ * this is only recoverable with wallets that sign deterministically (RFC 6979), which most wallets do
+ * @param signer Wallet to sign the message with
+ * @param chainId Chain ID of the network
+ * @param registrarAddress Address of the Registrar contract
+ * @returns Key pair
+ */
+export const deriveKeyFromSigner = async (
+	signer: MessageSigner,
+	chainId: BigNumberish,
+	registrarAddress: string,
+): Promise<BabyJubKeyPair> => {
+	const message = getKeyDerivationMessage(chainId, registrarAddress);
+	const signature = await signer.signMessage(message);
+
+	return deriveKeyFromSignature(signature);
+};
@@ -0,0 +1,254 @@
+import {
+	type BigNumberish,
+	getAddress,
+	getBytes,
+	hexlify,
+	pbkdf2,
+	scrypt,
+	toBeHex,
+	toBigInt,
+	toUtf8Bytes,
+} from "ethers";
+import { type BabyJubKeyPair, getKeyPair } from "./keys";
+import { type RandomSource, cryptoRandomSource } from "./random";
+
+export const KEYSTORE_VERSION = 1;
+
+// same defaults as the Ethereum V3 keystores
+const DEFAULT_SCRYPT_PARAMS = { n: 2 ** 17, r: 8, p: 1 };
+const DEFAULT_PBKDF2_ITERATIONS = 262144;
+const DERIVED_KEY_LENGTH = 32;
+const SALT_LENGTH = 32;
+const IV_LENGTH = 12;
+
+export interface ScryptParams {
+	n: number;
+	r: number;
+	p: number;
+	dklen: number;
+	salt: string;
+}
+
+export interface Pbkdf2Params {
+	c: number;
+	prf: "hmac-sha256";
+	dklen: number;
+	salt: string;
+}
+
+/**
+ * Encrypted keystore for an eERC BabyJubJub private key, modelled after the Ethereum V3 keystore
+ * the public key, chain ID and Registrar are stored in plaintext and authenticated as AES-GCM additional data
+ */
+export interface EERCKeystore {
+	version: number;
+	publicKey: [string, string];
+	chainId: string;
+	registrar: string;
+	crypto: {
+		cipher: "aes-256-gcm";
+		ciphertext: string;
+		cipherparams: { iv: string };
+	} & (
+		| { kdf: "scrypt"; kdfparams: ScryptParams }
+		| { kdf: "pbkdf2"; kdfparams: Pbkdf2Params }
+	);
+}
+
+export interface EncryptKeystoreOptions {
+	chainId: BigNumberish;
+	registrarAddress: string;
+	// defaults to scrypt
+	kdf?: "scrypt" | "pbkdf2";
+	// scrypt cost parameters, defaults to n = 2^17, r = 8, p = 1
+	scrypt?: { n: number; r: number; p: number };
+	// pbkdf2 iterations, defaults to 262144
+	pbkdf2Iterations?: number;
+	rng?: RandomSource;
+}
+
+/**
+ * Derives the AES key from the password with the keystore's kdf
+ * @param password Keystore password
+ * @param crypto Crypto section of the keystore
+ * @returns AES-256 key
+ */
+const deriveKey = async (
+	password: string,
+	crypto: EERCKeystore["crypto"],
+): Promise<Uint8Array> => {
+	const passwordBytes = toUtf8Bytes(password, "NFKD");
+
+	if (crypto.kdf === "scrypt") {
+		const { n, r, p, dklen, salt } = crypto.kdfparams;
+		return getBytes(await scrypt(passwordBytes, salt, n, r, p, dklen));
+	}
+
+	if (crypto.kdf === "pbkdf2") {
+		const { c, prf, dklen, salt } = crypto.kdfparams;
+		if (prf !== "hmac-sha256") {
+			throw new Error(`Unsupported keystore prf: ${prf}`);
+		}
+		return getBytes(pbkdf2(passwordBytes, salt, c, dklen, "sha256"));
+	}
+
+	throw new Error("Unsupported keystore kdf");
+};
+
+/**
+ * Builds the additional data that binds the plaintext fields to the ciphertext
+ * @param keystore Keystore fields stored in plaintext
+ * @returns Additional data for AES-GCM
+ */
+const additionalData = (
+	keystore: Pick<
+		EERCKeystore,
+		"version" | "publicKey" | "chainId" | "registrar"
+	>,
+): Uint8Array =>
+	toUtf8Bytes(
+		JSON.stringify([
+			keystore.version,
+			keystore.publicKey,
+			keystore.chainId,
+			keystore.registrar,
+		]),
+	);
+
+/**
+ * Imports a raw AES-256-GCM key into Web Crypto
+ * @param key Raw key
+ * @param usage Key usage
+ * @returns Web Crypto key
+ */
+const importAesKey = (key: Uint8Array, usage: "encrypt" | "decrypt") =>
+	globalThis.crypto.subtle.importKey(
+		"raw",
+		new Uint8Array(key),
+		"AES-GCM",
+		false,
+		[usage],
+	);
+
+/**
+ * Encrypts a BabyJubJub private key into a keystore
+ * @param privateKey Private key, same format as User.privateKey
+ * @param password Password to encrypt the keystore with
+ * @param options Chain ID, Registrar address and kdf configuration
+ * @returns Keystore
+ */
+export const encryptKeystore = async (
+	privateKey: bigint,
+	password: string,
+	options: EncryptKeystoreOptions,
+): Promise<EERCKeystore> => {
+	const rng = options.rng ?? cryptoRandomSource;
+	const { publicKey } = getKeyPair(privateKey);
+
+	const salt = hexlify(rng.randomBytes(SALT_LENGTH));
+	const iv = rng.randomBytes(IV_LENGTH);
+
+	const kdf: Pick<EERCKeystore["crypto"], "kdf" | "kdfparams"> =
+		options.kdf === "pbkdf2"
+			? {
+					kdf: "pbkdf2",
+					kdfparams: {
+						c: options.pbkdf2Iterations ?? DEFAULT_PBKDF2_ITERATIONS,
+						prf: "hmac-sha256",
+						dklen: DERIVED_KEY_LENGTH,
+						salt,
+					},
+				}
+			: {
+					kdf: "scrypt",
+					kdfparams: {
+						...(options.scrypt ?? DEFAULT_SCRYPT_PARAMS),
+						dklen: DERIVED_KEY_LENGTH,
+						salt,
+					},
+				};
+
+	const fields = {
+		version: KEYSTORE_VERSION,
+		publicKey: [publicKey[0].toString(), publicKey[1].toString()] as [
+			string,
+			string,
+		],
+		chainId: BigInt(options.chainId).toString(),
+		registrar: getAddress(options.registrarAddress),
+	};
+
+	const crypto = {
+		cipher: "aes-256-gcm",
+		ciphertext: "0x",
+		cipherparams: { iv: hexlify(iv) },
+		...kdf,
+	} as EERCKeystore["crypto"];
+
+	const key = await importAesKey(await deriveKey(password, crypto), "encrypt");
+	const ciphertext = await globalThis.crypto.subtle.encrypt(
+		{
+			name: "AES-GCM",
+			iv: new Uint8Array(iv),
+			additionalData: new Uint8Array(additionalData(fields)),
+		},
+		key,
+		new Uint8Array(getBytes(toBeHex(privateKey, 32))),
+	);
+	crypto.ciphertext = hexlify(new Uint8Array(ciphertext));
+
+	return { ...fields, crypto };
+};
+
+/**
+ * Decrypts a keystore created with encryptKeystore
+ * @param keystore Keystore, as an object or a JSON string
+ * @param password Password of the keystore
+ * @returns Key pair of the keystore
+ */
+export const decryptKeystore = async (
+	keystore: EERCKeystore | string,
+	password: string,
+): Promise<BabyJubKeyPair> => {
+	const parsed: EERCKeystore =
+		typeof keystore === "string" ? JSON.parse(keystore) : keystore;
+
+	if (parsed.version !== KEYSTORE_VERSION) {
+		throw new Error(`Unsupported keystore version: ${parsed.version}`);
+	}
+	if (parsed.crypto?.cipher !== "aes-256-gcm") {
+		throw new Error("Unsupported keystore cipher");
+	}
+
+	const key = await importAesKey(
+		await deriveKey(password, parsed.crypto),
+		"decrypt",
+	);
+
+	let plaintext: ArrayBuffer;
+	try {
+		plaintext = await globalThis.crypto.subtle.decrypt(
+			{
+				name: "AES-GCM",
+				iv: new Uint8Array(getBytes(parsed.crypto.cipherparams.iv)),
+				additionalData: new Uint8Array(additionalData(parsed)),
+			},
+			key,
+			new Uint8Array(getBytes(parsed.crypto.ciphertext)),
+		);
+	} catch {
+		throw new Error("Invalid keystore password or corrupted keystore");
+	}
+
+	const keyPair = getKeyPair(toBigInt(new Uint8Array(plaintext)));
+
+	// the public key is authenticated, but check it against the decrypted key as well
+	if (
+		keyPair.publicKey[0].toString() !== parsed.publicKey[0] ||
+		keyPair.publicKey[1].toString() !== parsed.publicKey[1]
+	) {
+		throw new Error("Keystore public key does not match the private key");
+	}
+
+	return keyPair;
+};
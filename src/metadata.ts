@@ -1,8 +1,17 @@
-import { ethers } from "hardhat";
+import { Base8, type Point, mulPointEscalar } from "@zk-kit/baby-jubjub";
+import { poseidonEncrypt } from "@zk-kit/poseidon-cipher";
+import { ethers } from "ethers";
+import { poseidon2 } from "poseidon-lite";
+import { BN254_SCALAR_FIELD } from "./constants";
+import { validatePoint, validatePublicKey } from "./jub/validation";
+import { formatPrivKeyForBabyJub, getKeyPair } from "./keys";
 import {
-	processPoseidonDecryption,
+	processPoseidonDecryptionWithSharedKey,
 	processPoseidonEncryption,
+	randomNonce,
 } from "./poseidon";
+import { type RandomSource, cryptoRandomSource, randomScalar } from "./random";
+import { signPayload, verifyPayload } from "./signature";
 
 // Function to split a BigInt into 250-bit chunks
 function splitIntoBigIntChunks(decimal: string): bigint[] {
@@ -47,9 +56,8 @@ export function str2int(s: string): [bigint[], bigint] {
 		return [[BigInt(0)], BigInt(1)];
 	}
 
-	// in browsers use TextEncoder
-	const buf = Buffer.from(s, "utf8");
-	const hexString = buf.toString("hex");
+	const buf = new TextEncoder().encode(s);
+	const hexString = ethers.hexlify(buf).slice(2);
 	// Add check for empty hex string
 	const result = hexString === "" ? BigInt(0) : BigInt(`0x${hexString}`);
 	const resultChunks = splitIntoBigIntChunks(result.toString());
@@ -77,20 +85,412 @@ export function int2str(input: bigint[]): string {
 	if (hex.length % 2 !== 0) {
 		hex = `0${hex}`;
 	}
-	const buf = Buffer.from(hex, "hex");
+	const buf = ethers.getBytes(`0x${hex}`);
 
 	// Remove null characters from the result
 	// biome-ignore lint/suspicious/noControlCharactersInRegex: We need to remove null characters from the result
-	return buf.toString("utf8").replace(/\u0000/g, "");
+	return new TextDecoder().decode(buf).replace(/\u0000/g, "");
 }
 
+/**
+ * Thrown when an encrypted message is malformed or fails to decrypt
+ * all the metadata errors extend it, so indexers can skip bad messages with a single instanceof check
+ */
+export class InvalidMetadataError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "InvalidMetadataError";
+	}
+}
+
+/**
+ * Thrown when an encrypted message is shorter than its header or not made of 32 byte words
+ */
+export class MetadataTruncatedError extends InvalidMetadataError {
+	constructor(message: string) {
+		super(message);
+		this.name = "MetadataTruncatedError";
+	}
+}
+
+/**
+ * Thrown when the length of a message does not match its ciphertext, or its decrypted payload
+ */
+export class MetadataLengthMismatchError extends InvalidMetadataError {
+	constructor(message: string) {
+		super(message);
+		this.name = "MetadataLengthMismatchError";
+	}
+}
+
+/**
+ * Thrown when the authKey of a message is not a valid BabyJubJub point
+ */
+export class MetadataAuthKeyError extends InvalidMetadataError {
+	constructor(message: string) {
+		super(message);
+		this.name = "MetadataAuthKeyError";
+	}
+}
+
+/**
+ * Thrown when a message fails the Poseidon authentication check, it was tampered with or is for another key
+ */
+export class MetadataAuthenticationError extends InvalidMetadataError {
+	constructor() {
+		super("Invalid metadata: authentication failed");
+		this.name = "MetadataAuthenticationError";
+	}
+}
+
+/**
+ * Thrown when the private key is not one of the recipients of a multi-recipient message
+ */
+export class MetadataRecipientNotFoundError extends InvalidMetadataError {
+	constructor() {
+		super("Invalid metadata: not a recipient of the message");
+		this.name = "MetadataRecipientNotFoundError";
+	}
+}
+
+/**
+ * Thrown when a message is not signed, or not signed by the expected sender
+ */
+export class MetadataSignatureError extends InvalidMetadataError {
+	constructor(message: string) {
+		super(message);
+		this.name = "MetadataSignatureError";
+	}
+}
+
+/**
+ * Encrypted message as parsed by parseMetadata
+ */
+export interface ParsedMetadata {
+	// number of encrypted field elements
+	length: number;
+	nonce: bigint;
+	authKey: bigint[];
+	ciphertext: bigint[];
+}
+
+// length, nonce and authKey
+const METADATA_HEADER_SIZE = 4 * 32;
+// marks multi-recipient messages, it can not be the length of a single recipient message
+const MULTI_RECIPIENT_MARKER = ethers.toBigInt(
+	ethers.toUtf8Bytes("eERC multi-recipient metadata v1"),
+);
+// marker, recipient count, length, nonce and authKey
+const MULTI_RECIPIENT_HEADER_SIZE = 6 * 32;
+// tag and the wrapped content key
+const RECIPIENT_SLOT_WORDS = 5;
+const MAX_RECIPIENTS = 16;
+const NONCE_LIMIT = 2n ** 128n;
+
+// default padding buckets in field elements, longer messages are padded to a multiple of the largest
+export const METADATA_PADDING_BUCKETS: readonly number[] = [1, 4, 16, 64];
+// first element of a padded string message, str2int chunks are always below 2^250
+const PADDED_STRING_MARKER = 2n ** 251n;
+// first element of a signed string message, followed by the byte length
+const SIGNED_STRING_MARKER = 2n ** 252n;
+const SIGNED_STRING_DOMAIN = "eERC metadata text signature";
+// sender public key, R8 and S
+const SIGNATURE_ELEMENTS = 5;
+
+/**
+ * Padding of an encrypted message, true for METADATA_PADDING_BUCKETS or the buckets to use
+ */
+export type MetadataPadding = boolean | readonly number[];
+
+// bytes per field element of a binary payload, 31 bytes always fit below the field modulus
+const BYTES_PER_CHUNK = 31;
+
+/**
+ * Encodes bytes as [byte length, ...31 byte chunks]
+ * @param bytes Payload
+ * @returns Field elements
+ */
+const bytesToFieldElements = (bytes: Uint8Array): bigint[] => {
+	const fieldElements = [BigInt(bytes.length)];
+	for (let i = 0; i < bytes.length; i += BYTES_PER_CHUNK) {
+		fieldElements.push(ethers.toBigInt(bytes.subarray(i, i + BYTES_PER_CHUNK)));
+	}
+	return fieldElements;
+};
+
+/**
+ * Decodes field elements encoded by bytesToFieldElements
+ * @param fieldElements Decrypted field elements
+ * @returns Payload
+ */
+const fieldElementsToBytes = ([
+	byteLength,
+	...chunks
+]: bigint[]): Uint8Array => {
+	// padding follows the chunks and is all zeros
+	const expectedChunks = Math.ceil(Number(byteLength) / BYTES_PER_CHUNK);
+	if (
+		chunks.length < expectedChunks ||
+		chunks.slice(expectedChunks).some((chunk) => chunk !== 0n)
+	) {
+		throw new MetadataLengthMismatchError(
+			"Invalid metadata: byte length does not match the payload",
+		);
+	}
+
+	const bytes = new Uint8Array(Number(byteLength));
+	chunks.slice(0, expectedChunks).forEach((chunk, i) => {
+		// the last chunk holds the remaining bytes
+		const size = Math.min(BYTES_PER_CHUNK, bytes.length - i * BYTES_PER_CHUNK);
+		if (chunk >= 1n << BigInt(8 * size)) {
+			throw new MetadataLengthMismatchError(
+				"Invalid metadata: byte length does not match the payload",
+			);
+		}
+		bytes.set(
+			ethers.getBytes(ethers.toBeHex(chunk, size)),
+			i * BYTES_PER_CHUNK,
+		);
+	});
+
+	return bytes;
+};
+
+/**
+ * Computes the padded length of a message
+ * @param length Number of field elements of the message
+ * @param padding Padding buckets
+ * @returns Smallest bucket that fits the message, or the next multiple of the largest bucket
+ */
+export const getPaddedLength = (
+	length: number,
+	padding: MetadataPadding = true,
+): number => {
+	if (padding === false) {
+		return length;
+	}
+
+	const buckets = [
+		...(padding === true ? METADATA_PADDING_BUCKETS : padding),
+	].sort((a, b) => a - b);
+	if (
+		buckets.length === 0 ||
+		buckets.some((bucket) => !Number.isInteger(bucket) || bucket < 1)
+	) {
+		throw new Error("Invalid padding: buckets must be positive integers");
+	}
+
+	const bucket = buckets.find((bucket) => bucket >= length);
+	if (bucket !== undefined) {
+		return bucket;
+	}
+	const largest = buckets[buckets.length - 1];
+	return Math.ceil(length / largest) * largest;
+};
+
+/**
+ * Pads field elements with zeros
+ * @param fieldElements Field elements of the message
+ * @param padding Padding buckets
+ * @returns Padded field elements
+ */
+const padFieldElements = (
+	fieldElements: bigint[],
+	padding: MetadataPadding,
+): bigint[] => [
+	...fieldElements,
+	...new Array<bigint>(
+		getPaddedLength(fieldElements.length, padding) - fieldElements.length,
+	).fill(0n),
+];
+
+/**
+ * Packs an encrypted message as [length, nonce, authKey[0], authKey[1], ...ciphertext], 32 bytes each
+ */
+const packMetadata = (
+	length: bigint,
+	nonce: bigint,
+	authKey: bigint[],
+	ciphertext: bigint[],
+): string =>
+	ethers.concat(
+		[length, nonce, authKey[0], authKey[1], ...ciphertext].map((value) =>
+			ethers.zeroPadValue(ethers.toBeHex(value), 32),
+		),
+	);
+
+/**
+ * Splits an encrypted message into 32 byte words
+ * @param encryptedMessage Encrypted message as hex
+ * @param headerSize Minimum size of the message in bytes
+ * @returns Words of the message
+ */
+const toWords = (encryptedMessage: string, headerSize: number): bigint[] => {
+	const hex = encryptedMessage.startsWith("0x")
+		? encryptedMessage
+		: `0x${encryptedMessage}`;
+	if (!ethers.isHexString(hex, true)) {
+		throw new InvalidMetadataError("Invalid metadata: not a hex string");
+	}
+
+	const bytes = ethers.getBytes(hex);
+	if (bytes.length < headerSize) {
+		throw new MetadataTruncatedError(
+			`Invalid metadata: expected at least ${headerSize} bytes, got ${bytes.length}`,
+		);
+	}
+	if (bytes.length % 32 !== 0) {
+		throw new MetadataTruncatedError(
+			`Invalid metadata: expected 32 byte words, got ${bytes.length} bytes`,
+		);
+	}
+
+	const words: bigint[] = [];
+	for (let i = 0; i < bytes.length; i += 32) {
+		words.push(ethers.toBigInt(bytes.subarray(i, i + 32)));
+	}
+	return words;
+};
+
+/**
+ * Checks the Poseidon ciphertext of an encrypted message
+ * @param length Number of encrypted field elements
+ * @param nonce Nonce of the encryption
+ * @param authKey Authentication key of the encryption
+ * @param ciphertext Encrypted field elements
+ * @returns Parsed metadata
+ */
+const checkPoseidonCiphertext = (
+	length: bigint,
+	nonce: bigint,
+	authKey: bigint[],
+	ciphertext: bigint[],
+): ParsedMetadata => {
+	// poseidon encryption pads the message to a multiple of 3 and appends one authentication element
+	if (
+		length === 0n ||
+		length > BigInt(ciphertext.length) ||
+		ciphertext.length !== Math.ceil(Number(length) / 3) * 3 + 1
+	) {
+		throw new MetadataLengthMismatchError(
+			`Invalid metadata: length ${length} does not match ${ciphertext.length} ciphertext elements`,
+		);
+	}
+	if (nonce >= NONCE_LIMIT) {
+		throw new InvalidMetadataError(
+			"Invalid metadata: nonce must be less than 2^128",
+		);
+	}
+	if (ciphertext.some((element) => element >= BN254_SCALAR_FIELD)) {
+		throw new InvalidMetadataError(
+			"Invalid metadata: ciphertext element is not a field element",
+		);
+	}
+
+	try {
+		validatePoint(authKey, "authKey");
+	} catch (error) {
+		throw new MetadataAuthKeyError((error as Error).message);
+	}
+
+	return { length: Number(length), nonce, authKey, ciphertext };
+};
+
+/**
+ * Parses a message packed by packMetadata, checking its layout but not decrypting it
+ * @param encryptedMessage Metadata of a PrivateMessage event
+ * @returns Length, nonce, authKey and ciphertext of the message
+ */
+export const parseMetadata = (encryptedMessage: string): ParsedMetadata => {
+	const [length, nonce, authKey0, authKey1, ...ciphertext] = toWords(
+		encryptedMessage,
+		METADATA_HEADER_SIZE,
+	);
+
+	return checkPoseidonCiphertext(
+		length,
+		nonce,
+		[authKey0, authKey1],
+		ciphertext,
+	);
+};
+
+/**
+ * @param privateKey Private key of the receiver
+ * @returns Function computing the ECDH key authKey * privateKey
+ */
+const sharedKeyOf =
+	(privateKey: bigint) =>
+	(authKey: bigint[]): bigint[] =>
+		mulPointEscalar(
+			authKey as Point<bigint>,
+			formatPrivKeyForBabyJub(privateKey),
+		);
+
+/**
+ * Decrypts a message packed by packMetadata
+ * @param encryptedMessage Encrypted message
+ * @param sharedKey Computes the ECDH key of the validated authKey
+ * @returns Decrypted field elements
+ */
+const decryptPackedMetadata = (
+	encryptedMessage: string,
+	sharedKey: (authKey: bigint[]) => bigint[],
+): bigint[] => {
+	const { length, nonce, authKey, ciphertext } =
+		parseMetadata(encryptedMessage);
+
+	try {
+		return processPoseidonDecryptionWithSharedKey(
+			ciphertext,
+			sharedKey(authKey),
+			nonce,
+			length,
+		);
+	} catch {
+		throw new MetadataAuthenticationError();
+	}
+};
+
 // uses poseidon ecdh encryption to encrypt the message, just like PCTs but ciphertext is added to the bottom of the message
 // after the message is encrypted, it is converted to bytes
+// with padding the message is encrypted as [marker + chunk count, ...chunks, ...zeros] so only the bucket is public
+// signed messages are encrypted as [marker + byte length, ...31 byte chunks, ...signature, ...zeros]
 export const encryptMetadata = (
 	publicKey: bigint[],
 	message: string,
+	rng: RandomSource = cryptoRandomSource,
+	padding: MetadataPadding = false,
+	senderPrivateKey?: bigint,
 ): string => {
-	const [messageFieldElements, length] = str2int(message);
+	let [messageFieldElements, length] = str2int(message);
+	if (senderPrivateKey !== undefined) {
+		const bytes = ethers.toUtf8Bytes(message);
+		const signature = signPayload(
+			SIGNED_STRING_DOMAIN,
+			bytes,
+			senderPrivateKey,
+			publicKey,
+		);
+		const [byteLength, ...chunks] = bytesToFieldElements(bytes);
+		messageFieldElements = padFieldElements(
+			[
+				SIGNED_STRING_MARKER + byteLength,
+				...chunks,
+				...signature.publicKey,
+				...signature.R8,
+				signature.S,
+			],
+			padding,
+		);
+		length = BigInt(messageFieldElements.length);
+	} else if (padding !== false) {
+		messageFieldElements = padFieldElements(
+			[PADDED_STRING_MARKER + length, ...messageFieldElements],
+			padding,
+		);
+		length = BigInt(messageFieldElements.length);
+	}
 
 	const {
 		ciphertext: metadataCiphertext,
@@ -102,55 +502,370 @@ export const encryptMetadata = (
 		authKey: [bigint, bigint];
 		encRandom: bigint;
 		poseidonEncryptionKey: [bigint, bigint];
-	} = processPoseidonEncryption(messageFieldElements as bigint[], publicKey);
-
-	const componentsToConcat = [
-		ethers.zeroPadValue(ethers.toBeHex(length), 32), // length (1 * 32 bytes)
-		ethers.zeroPadValue(ethers.toBeHex(metadataNonce), 32), // nonce (1 * 32 bytes)
-		ethers.zeroPadValue(ethers.toBeHex(metadataAuthKey[0]), 32), // authKey[0] (1 * 32 bytes)
-		ethers.zeroPadValue(ethers.toBeHex(metadataAuthKey[1]), 32), // authKey[1] (1 * 32 bytes)
-		...metadataCiphertext.map((chunk) =>
-			ethers.zeroPadValue(ethers.toBeHex(chunk), 32),
-		),
-	];
+	} = processPoseidonEncryption(
+		messageFieldElements as bigint[],
+		publicKey,
+		rng,
+	);
 
-	const encryptedMessageBytes = ethers.concat(componentsToConcat);
+	return packMetadata(
+		length,
+		metadataNonce,
+		metadataAuthKey,
+		metadataCiphertext,
+	);
+};
+
+/**
+ * Expected signer of a message and the recipient the signature is bound to
+ */
+interface SignatureCheck {
+	recipientPublicKey: bigint[];
+	senderPublicKey: bigint[];
+}
+
+/**
+ * Decodes and verifies a signed message of encryptMetadata
+ * @param fieldElements Decrypted field elements, starting with SIGNED_STRING_MARKER + byte length
+ * @param check If set, the message must be signed by the sender for the recipient
+ * @returns Decrypted message
+ */
+const decodeSignedString = (
+	[marker, ...elements]: bigint[],
+	check: SignatureCheck | undefined,
+): string => {
+	const byteLength = marker - SIGNED_STRING_MARKER;
+	if (byteLength > BigInt(elements.length * BYTES_PER_CHUNK)) {
+		throw new MetadataLengthMismatchError(
+			"Invalid metadata: byte length does not match the payload",
+		);
+	}
 
-	return encryptedMessageBytes;
+	const chunks = Math.ceil(Number(byteLength) / BYTES_PER_CHUNK);
+	const signature = elements.slice(chunks, chunks + SIGNATURE_ELEMENTS);
+	if (
+		signature.length !== SIGNATURE_ELEMENTS ||
+		elements
+			.slice(chunks + SIGNATURE_ELEMENTS)
+			.some((element) => element !== 0n)
+	) {
+		throw new MetadataLengthMismatchError(
+			"Invalid metadata: signed message does not match the payload",
+		);
+	}
+
+	const bytes = fieldElementsToBytes([
+		byteLength,
+		...elements.slice(0, chunks),
+	]);
+	const [publicKeyX, publicKeyY, R8x, R8y, S] = signature;
+	if (
+		check !== undefined &&
+		!verifyPayload(
+			SIGNED_STRING_DOMAIN,
+			bytes,
+			{ publicKey: [publicKeyX, publicKeyY], R8: [R8x, R8y], S },
+			check.recipientPublicKey,
+			check.senderPublicKey,
+		)
+	) {
+		throw new MetadataSignatureError(
+			"Invalid metadata: signature does not match the sender",
+		);
+	}
+
+	try {
+		return ethers.toUtf8String(bytes);
+	} catch {
+		throw new InvalidMetadataError("Invalid metadata: not a UTF-8 string");
+	}
 };
 
+/**
+ * Converts the decrypted field elements of encryptMetadata back to the message
+ * @param fieldElements Decrypted field elements
+ * @param check If set, the message must be signed by the sender for the recipient
+ * @returns Decrypted message
+ */
+const decodeMetadataString = (
+	fieldElements: bigint[],
+	check: SignatureCheck | undefined,
+): string => {
+	if (fieldElements[0] >= SIGNED_STRING_MARKER) {
+		return decodeSignedString(fieldElements, check);
+	}
+	if (check !== undefined) {
+		throw new MetadataSignatureError("Invalid metadata: not signed");
+	}
+
+	if (fieldElements[0] < PADDED_STRING_MARKER) {
+		return int2str(fieldElements);
+	}
+
+	const [marker, ...padded] = fieldElements;
+	const length = marker - PADDED_STRING_MARKER;
+	if (
+		length === 0n ||
+		length > BigInt(padded.length) ||
+		padded.slice(Number(length)).some((element) => element !== 0n)
+	) {
+		throw new MetadataLengthMismatchError(
+			"Invalid metadata: padded length does not match the payload",
+		);
+	}
+
+	return int2str(padded.slice(0, Number(length)));
+};
+
+/**
+ * Decrypts a message encrypted with encryptMetadata
+ * without senderPublicKey the signature of a signed message is not checked, it only claims a sender
+ * @param privateKey Private key of the receiver
+ * @param encryptedMessage Encrypted message
+ * @param senderPublicKey If set, the message must be signed with this key, e.g. the Registrar key of the sender
+ * @returns Decrypted message
+ */
 export const decryptMetadata = (
 	privateKey: bigint,
 	encryptedMessage: string,
+	senderPublicKey?: bigint[],
+): string =>
+	decodeMetadataString(
+		decryptPackedMetadata(encryptedMessage, sharedKeyOf(privateKey)),
+		senderPublicKey === undefined
+			? undefined
+			: {
+					recipientPublicKey: getKeyPair(privateKey).publicKey,
+					senderPublicKey,
+				},
+	);
+
+/**
+ * Decrypts a message encrypted with encryptMetadata when the shared key is already known,
+ * e.g. when it is disclosed in a viewing key
+ * @param sharedKey authKey * privateKey, the authKey is the one returned by parseMetadata
+ * @param encryptedMessage Encrypted message
+ * @param recipientPublicKey Public key of the receiver, the signature is bound to it
+ * @param senderPublicKey If set, the message must be signed with this key
+ * @returns Decrypted message
+ */
+export const decryptMetadataWithSharedKey = (
+	sharedKey: bigint[],
+	encryptedMessage: string,
+	recipientPublicKey: bigint[],
+	senderPublicKey?: bigint[],
+): string =>
+	decodeMetadataString(
+		decryptPackedMetadata(encryptedMessage, () => sharedKey),
+		senderPublicKey === undefined
+			? undefined
+			: { recipientPublicKey, senderPublicKey },
+	);
+
+/**
+ * Encrypts a binary payload, unlike encryptMetadata the bytes round-trip exactly, zeros included
+ * the payload is encrypted as [byte length, ...31 byte chunks], so the length stays private
+ * @param publicKey Public key of the receiver
+ * @param data Payload, e.g. an invoice hash or a protobuf blob
+ * @param rng Random source for the encryption
+ * @param padding Pads the payload with zero chunks, so only the bucket is public
+ * @returns Encrypted message, same layout as encryptMetadata
+ */
+export const encryptMetadataBytes = (
+	publicKey: bigint[],
+	data: ethers.BytesLike,
+	rng: RandomSource = cryptoRandomSource,
+	padding: MetadataPadding = false,
 ): string => {
-	const hexData = encryptedMessage.startsWith("0x")
+	const fieldElements = padFieldElements(
+		bytesToFieldElements(ethers.getBytes(data)),
+		padding,
+	);
+
+	const { ciphertext, nonce, authKey } = processPoseidonEncryption(
+		fieldElements,
+		publicKey,
+		rng,
+	);
+
+	return packMetadata(BigInt(fieldElements.length), nonce, authKey, ciphertext);
+};
+
+/**
+ * Decrypts a binary payload encrypted with encryptMetadataBytes
+ * @param privateKey Private key of the receiver
+ * @param encryptedMessage Encrypted message
+ * @returns Payload bytes
+ */
+export const decryptMetadataBytes = (
+	privateKey: bigint,
+	encryptedMessage: string,
+): Uint8Array =>
+	fieldElementsToBytes(
+		decryptPackedMetadata(encryptedMessage, sharedKeyOf(privateKey)),
+	);
+
+/**
+ * Decrypts a binary payload encrypted with encryptMetadataBytes when the shared key is already known
+ * @param sharedKey authKey * privateKey, the authKey is the one returned by parseMetadata
+ * @param encryptedMessage Encrypted message
+ * @returns Payload bytes
+ */
+export const decryptMetadataBytesWithSharedKey = (
+	sharedKey: bigint[],
+	encryptedMessage: string,
+): Uint8Array =>
+	fieldElementsToBytes(
+		decryptPackedMetadata(encryptedMessage, () => sharedKey),
+	);
+
+/**
+ * Encrypts a binary payload once for several recipients, e.g. the sender, the receiver and the auditor
+ * of a transfer. The payload is encrypted with a random content key, which is wrapped for every recipient
+ * with an ECDH key from a single ephemeral authKey. Every recipient slot starts with a tag derived from the
+ * ECDH key, so a recipient finds their slot without trial decryption while others can not tell who it is for
+ *
+ * Layout, 32 byte words:
+ * - marker, recipient count, length, nonce, authKey[0], authKey[1]
+ * - per recipient: tag, wrapped content key (4 words)
+ * - ciphertext
+ * @param publicKeys Public keys of the recipients
+ * @param data Payload, e.g. an encoded envelope
+ * @param rng Random source for the encryption
+ * @param padding Pads the payload with zero chunks, so only the bucket is public
+ * @returns Encrypted message, usable as the message of transfer, privateMint, withdraw etc.
+ */
+export const encryptMetadataForRecipients = (
+	publicKeys: bigint[][],
+	data: ethers.BytesLike,
+	rng: RandomSource = cryptoRandomSource,
+	padding: MetadataPadding = false,
+): string => {
+	if (publicKeys.length === 0 || publicKeys.length > MAX_RECIPIENTS) {
+		throw new Error(
+			`Invalid recipients: expected 1 to ${MAX_RECIPIENTS} public keys, got ${publicKeys.length}`,
+		);
+	}
+	for (const publicKey of publicKeys) {
+		validatePublicKey(publicKey);
+	}
+
+	const fieldElements = padFieldElements(
+		bytesToFieldElements(ethers.getBytes(data)),
+		padding,
+	);
+	const nonce = randomNonce(rng);
+	const contentKey: [bigint, bigint] = [randomScalar(rng), randomScalar(rng)];
+
+	const encRandom = randomScalar(rng);
+	const authKey = mulPointEscalar(Base8, encRandom);
+
+	const slots = publicKeys.flatMap((publicKey) => {
+		const sharedKey = mulPointEscalar(publicKey as Point<bigint>, encRandom);
+		return [
+			poseidon2(sharedKey),
+			...poseidonEncrypt(contentKey, sharedKey, nonce),
+		];
+	});
+
+	return ethers.concat(
+		[
+			MULTI_RECIPIENT_MARKER,
+			BigInt(publicKeys.length),
+			BigInt(fieldElements.length),
+			nonce,
+			...authKey,
+			...slots,
+			...poseidonEncrypt(fieldElements, contentKey, nonce),
+		].map((value) => ethers.zeroPadValue(ethers.toBeHex(value), 32)),
+	);
+};
+
+/**
+ * @param encryptedMessage Metadata of a PrivateMessage event
+ * @returns True if the message was encrypted with encryptMetadataForRecipients
+ */
+export const isMultiRecipientMetadata = (encryptedMessage: string): boolean => {
+	const hex = encryptedMessage.startsWith("0x")
 		? encryptedMessage.slice(2)
 		: encryptedMessage;
 
-	const lengthHex = `0x${hexData.slice(0, 64)}`;
-	const nonceHex = `0x${hexData.slice(64, 128)}`;
-	const authKey0Hex = `0x${hexData.slice(128, 192)}`;
-	const authKey1Hex = `0x${hexData.slice(192, 256)}`;
-
-	const length = BigInt(lengthHex);
-	const nonce = BigInt(nonceHex);
-	const authKey: [bigint, bigint] = [BigInt(authKey0Hex), BigInt(authKey1Hex)];
+	return (
+		ethers.isHexString(`0x${hex.slice(0, 64)}`, 32) &&
+		BigInt(`0x${hex.slice(0, 64)}`) === MULTI_RECIPIENT_MARKER
+	);
+};
 
-	const ciphertextHex = hexData.slice(256);
-	const ciphertext: bigint[] = [];
+/**
+ * Decrypts a binary payload encrypted with encryptMetadataForRecipients
+ * @param privateKey Private key of one of the recipients
+ * @param encryptedMessage Encrypted message
+ * @returns Payload bytes
+ */
+export const decryptMetadataForRecipient = (
+	privateKey: bigint,
+	encryptedMessage: string,
+): Uint8Array => {
+	const words = toWords(encryptedMessage, MULTI_RECIPIENT_HEADER_SIZE);
+	const [marker, count, length, nonce, authKey0, authKey1] = words;
+	if (marker !== MULTI_RECIPIENT_MARKER) {
+		throw new InvalidMetadataError(
+			"Invalid metadata: not a multi-recipient message",
+		);
+	}
 
-	for (let i = 0; i < ciphertextHex.length; i += 64) {
-		const chunkHex = `0x${ciphertextHex.slice(i, i + 64)}`;
-		ciphertext.push(BigInt(chunkHex));
+	const headerWords = MULTI_RECIPIENT_HEADER_SIZE / 32;
+	const slotsEnd = headerWords + Number(count) * RECIPIENT_SLOT_WORDS;
+	if (
+		count === 0n ||
+		count > BigInt(MAX_RECIPIENTS) ||
+		slotsEnd > words.length
+	) {
+		throw new MetadataLengthMismatchError(
+			`Invalid metadata: recipient count ${count} does not match the message`,
+		);
 	}
 
-	const decryptedFieldElements = processPoseidonDecryption(
-		ciphertext,
-		authKey,
+	const { ciphertext } = checkPoseidonCiphertext(
+		length,
 		nonce,
-		privateKey,
-		Number(length),
+		[authKey0, authKey1],
+		words.slice(slotsEnd),
 	);
 
-	return int2str(decryptedFieldElements);
+	const sharedKey = sharedKeyOf(privateKey)([authKey0, authKey1]);
+	const tag = poseidon2(sharedKey);
+
+	let slot = -1;
+	for (let i = headerWords; i < slotsEnd; i += RECIPIENT_SLOT_WORDS) {
+		if (words[i] === tag) {
+			slot = i;
+			break;
+		}
+	}
+	if (slot === -1) {
+		throw new MetadataRecipientNotFoundError();
+	}
+
+	try {
+		const contentKey = processPoseidonDecryptionWithSharedKey(
+			words.slice(slot + 1, slot + RECIPIENT_SLOT_WORDS),
+			sharedKey,
+			nonce,
+			2,
+		);
+		return fieldElementsToBytes(
+			processPoseidonDecryptionWithSharedKey(
+				ciphertext,
+				contentKey,
+				nonce,
+				Number(length),
+			),
+		);
+	} catch (error) {
+		if (error instanceof InvalidMetadataError) {
+			throw error;
+		}
+		throw new MetadataAuthenticationError();
+	}
 };
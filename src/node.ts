@@ -0,0 +1,61 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import {
+	constants,
+	brotliCompressSync,
+	brotliDecompressSync,
+	deflateRawSync,
+	inflateRawSync,
+} from "node:zlib";
+import type { MetadataCompressor } from "./envelope";
+import { PrecomputedBabyStepTable, serializeBabyStepTable } from "./jub";
+
+// node-only helpers, kept out of src/index.ts so the rest of src can be imported in browsers
+
+/**
+ * Generates a baby-step table and writes it to a file
+ * @param path Output file path
+ * @param babySteps Number of consecutive multiples of Base8 to store
+ */
+export const writeBabyStepTable = (path: string, babySteps: number) => {
+	writeFileSync(path, serializeBabyStepTable(babySteps));
+};
+
+/**
+ * Loads a baby-step table from a file
+ * node has no mmap, so the file is read into a single buffer which is then queried in place without being deserialized
+ * @param path Table file path
+ * @returns Baby-step table to pass to solveDiscreteLog or decryptMessage
+ */
+export const loadBabyStepTable = (path: string): PrecomputedBabyStepTable =>
+	new PrecomputedBabyStepTable(readFileSync(path));
+
+/**
+ * Raw deflate (RFC 1951) for envelope bodies, without the zlib header and checksum the encryption already covers
+ */
+export const deflateCompressor: MetadataCompressor = {
+	algorithm: "deflate",
+	compress: (data) =>
+		new Uint8Array(
+			deflateRawSync(data, { level: constants.Z_BEST_COMPRESSION }),
+		),
+	decompress: (data, maxOutputLength) =>
+		new Uint8Array(inflateRawSync(data, { maxOutputLength })),
+};
+
+/**
+ * Brotli for envelope bodies, usually a few bytes shorter than deflate on JSON
+ */
+export const brotliCompressor: MetadataCompressor = {
+	algorithm: "brotli",
+	compress: (data) =>
+		new Uint8Array(
+			brotliCompressSync(data, {
+				params: {
+					[constants.BROTLI_PARAM_QUALITY]: constants.BROTLI_MAX_QUALITY,
+					[constants.BROTLI_PARAM_SIZE_HINT]: data.length,
+				},
+			}),
+		),
+	decompress: (data, maxOutputLength) =>
+		new Uint8Array(brotliDecompressSync(data, { maxOutputLength })),
+};
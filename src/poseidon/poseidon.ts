@@ -1,27 +1,32 @@
 import { Base8, type Point, mulPointEscalar } from "@zk-kit/baby-jubjub";
-import {
-	formatPrivKeyForBabyJub,
-	genRandomBabyJubValue,
-	poseidonDecrypt,
-	poseidonEncrypt,
-} from "maci-crypto";
-import { randomBytes } from "node:crypto";
+import { poseidonDecrypt, poseidonEncrypt } from "@zk-kit/poseidon-cipher";
+import { toBigInt } from "ethers";
 import { BASE_POINT_ORDER } from "../constants";
+import { validatePoint, validatePublicKey } from "../jub/validation";
+import { formatPrivKeyForBabyJub } from "../keys";
+import {
+	type RandomSource,
+	cryptoRandomSource,
+	randomBabyJubValue,
+} from "../random";
 
 /**
  * Generates a random nonce
+ * @param rng Random source
  * @returns A cryptographically secure random number
  */
-export const randomNonce = (): bigint => {
-	const bytes = randomBytes(16);
+export const randomNonce = (rng: RandomSource = cryptoRandomSource): bigint => {
+	const bytes = rng.randomBytes(16);
 	// add 1 to make sure it's non-zero
-	return BigInt(`0x${bytes.toString("hex")}`) + 1n;
+	return toBigInt(bytes) + 1n;
 };
 
 /**
  *
  * @param inputs Input array to encrypt
  * @param publicKey Public key
+ * @param rng Random source for the nonce and the encryption randomness
+ * @param validate Validates the public key, only skip it for trusted keys
  * @returns ciphertext - Encrypted message
  * @returns nonce - Nonce used for the poseidon encryption
  * @returns encRandom - Randomness used for the encryption
@@ -31,12 +36,18 @@ export const randomNonce = (): bigint => {
 export const processPoseidonEncryption = (
 	inputs: bigint[],
 	publicKey: bigint[],
+	rng: RandomSource = cryptoRandomSource,
+	validate = true,
 ) => {
-	const nonce = randomNonce();
+	if (validate) {
+		validatePublicKey(publicKey);
+	}
 
-	let encRandom = genRandomBabyJubValue();
+	const nonce = randomNonce(rng);
+
+	let encRandom = randomBabyJubValue(rng);
 	if (encRandom >= BASE_POINT_ORDER) {
-		encRandom = genRandomBabyJubValue() / 10n;
+		encRandom = randomBabyJubValue(rng) / 10n;
 	}
 
 	const poseidonEncryptionKey = mulPointEscalar(
@@ -56,6 +67,7 @@ export const processPoseidonEncryption = (
  * @param nonce Nonce used for the poseidon encryption
  * @param privateKey Private key
  * @param length Length of the original input array
+ * @param validate Validates the authentication key, only skip it for trusted PCTs
  * @returns Decrypted message as an array
  */
 export const processPoseidonDecryption = (
@@ -64,13 +76,46 @@ export const processPoseidonDecryption = (
 	nonce: bigint,
 	privateKey: bigint,
 	length: number,
+	validate = true,
 ) => {
+	if (validate) {
+		validatePoint(authKey, "authKey");
+	}
+
 	const sharedKey = mulPointEscalar(
 		authKey as Point<bigint>,
 		formatPrivKeyForBabyJub(privateKey),
 	);
 
-	const decrypted = poseidonDecrypt(ciphertext, sharedKey, nonce, length);
+	return processPoseidonDecryptionWithSharedKey(
+		ciphertext,
+		sharedKey,
+		nonce,
+		length,
+	);
+};
+
+/**
+ * Decrypts a message encrypted with Poseidon when the shared key (authKey * privateKey) is already known,
+ * e.g. when it is combined from threshold shares of the private key
+ * @param ciphertext Encrypted message
+ * @param sharedKey Poseidon encryption key (authKey * privateKey)
+ * @param nonce Nonce used for the poseidon encryption
+ * @param length Length of the original input array
+ * @returns Decrypted message as an array
+ */
+export const processPoseidonDecryptionWithSharedKey = (
+	ciphertext: bigint[],
+	sharedKey: bigint[],
+	nonce: bigint,
+	length: number,
+) => {
+	const decrypted = poseidonDecrypt(
+		ciphertext,
+		sharedKey as Point<bigint>,
+		nonce,
+		length,
+	);
 
 	return decrypted.slice(0, length);
 };
@@ -0,0 +1,111 @@
+import {
+	concat,
+	getBytes,
+	sha256,
+	toBeArray,
+	toBigInt,
+	zeroPadValue,
+} from "ethers";
+import { BASE_POINT_ORDER, BN254_SCALAR_FIELD } from "./constants";
+
+/**
+ * Source of randomness for all the encryption helpers
+ */
+export interface RandomSource {
+	/**
+	 * @param length Number of bytes to generate
+	 * @returns Uniformly random bytes
+	 */
+	randomBytes(length: number): Uint8Array;
+}
+
+// getRandomValues fills at most 65536 bytes per call
+const MAX_RANDOM_VALUES_LENGTH = 65536;
+
+// default random source, backed by the Web Crypto CSPRNG (available in browsers and node >= 19)
+export const cryptoRandomSource: RandomSource = {
+	randomBytes: (length: number) => {
+		const bytes = new Uint8Array(length);
+		for (let i = 0; i < length; i += MAX_RANDOM_VALUES_LENGTH) {
+			globalThis.crypto.getRandomValues(
+				bytes.subarray(i, i + MAX_RANDOM_VALUES_LENGTH),
+			);
+		}
+		return bytes;
+	},
+};
+
+/**
+ * Creates a deterministic random source from a seed
+ * bytes are generated as sha256(seed | counter) blocks, so the same seed always yields the same stream
+ * only meant for reproducible ciphertexts and test vectors, never for real funds
+ * @param seed Seed of the random source
+ * @returns Seeded random source
+ */
+export const createSeededRandomSource = (seed: bigint): RandomSource => {
+	const seedBytes = zeroPadValue(toBeArray(seed), 32);
+	let counter = 0n;
+	let buffer: Uint8Array = new Uint8Array(0);
+
+	return {
+		randomBytes: (length: number) => {
+			while (buffer.length < length) {
+				const block = sha256(
+					concat([seedBytes, zeroPadValue(toBeArray(counter), 32)]),
+				);
+				buffer = getBytes(concat([buffer, block]));
+				counter++;
+			}
+
+			const bytes = buffer.slice(0, length);
+			buffer = buffer.slice(length);
+			return bytes;
+		},
+	};
+};
+
+/**
+ * Generates a random value in the BN254 scalar field, same as maci-crypto's genRandomBabyJubValue
+ * but with an injectable random source
+ * @param rng Random source
+ * @returns A BabyJub-compatible random value
+ */
+export const randomBabyJubValue = (
+	rng: RandomSource = cryptoRandomSource,
+): bigint => {
+	// prevents modulo bias, (2^256 - BN254_SCALAR_FIELD) % BN254_SCALAR_FIELD
+	const min = (2n ** 256n - BN254_SCALAR_FIELD) % BN254_SCALAR_FIELD;
+
+	let value = BN254_SCALAR_FIELD;
+	do {
+		const rand = toBigInt(rng.randomBytes(32));
+		if (rand >= min) {
+			value = rand % BN254_SCALAR_FIELD;
+		}
+	} while (value >= BN254_SCALAR_FIELD);
+
+	return value;
+};
+
+/**
+ * Generates a uniformly random non-zero scalar modulo the BabyJubJub subgroup order
+ * reducing randomBabyJubValue modulo the order would be biased, which matters for proof nonces
+ * @param rng Random source
+ * @returns A random scalar in [1, BASE_POINT_ORDER)
+ */
+export const randomScalar = (
+	rng: RandomSource = cryptoRandomSource,
+): bigint => {
+	// 2^256 - min is a multiple of the order, so rejecting values below min prevents modulo bias
+	const min = 2n ** 256n % BASE_POINT_ORDER;
+
+	let value = 0n;
+	while (value === 0n) {
+		const rand = toBigInt(rng.randomBytes(32));
+		if (rand >= min) {
+			value = rand % BASE_POINT_ORDER;
+		}
+	}
+
+	return value;
+};
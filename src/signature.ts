@@ -0,0 +1,97 @@
+import { concat, keccak256, toBeHex, toBigInt, toUtf8Bytes } from "ethers";
+import { BN254_SCALAR_FIELD } from "./constants";
+import { signMessage, verifySignature } from "./eddsa";
+import { getKeyPair } from "./keys";
+
+// sender signatures shared by the plain metadata in metadata.ts and the envelopes in envelope.ts
+// every payload format signs under its own domain, so a signature can not be moved between formats
+
+/**
+ * BabyJubJub EdDSA signature of the sender over a message and the recipient's public key
+ */
+export interface MetadataSignature {
+	// eERC public key of the sender, as registered in the Registrar
+	publicKey: bigint[];
+	R8: bigint[];
+	S: bigint;
+}
+
+/**
+ * Computes the message signed by the sender
+ * @param domain Domain of the payload format
+ * @param payload Signed payload
+ * @param recipientPublicKey Public key of the recipient
+ * @returns Message as a field element
+ */
+const signatureMessage = (
+	domain: string,
+	payload: Uint8Array,
+	recipientPublicKey: bigint[],
+): bigint =>
+	toBigInt(
+		keccak256(
+			concat([
+				toUtf8Bytes(domain),
+				payload,
+				toBeHex(recipientPublicKey[0], 32),
+				toBeHex(recipientPublicKey[1], 32),
+			]),
+		),
+	) % BN254_SCALAR_FIELD;
+
+/**
+ * Signs a payload with the sender's eERC key, binding it to the recipient so it can not be re-addressed
+ * @param domain Domain of the payload format
+ * @param payload Payload to sign
+ * @param senderPrivateKey Private key of the sender, same format as User.privateKey
+ * @param recipientPublicKey Public key of the recipient
+ * @returns Signature
+ */
+export const signPayload = (
+	domain: string,
+	payload: Uint8Array,
+	senderPrivateKey: bigint,
+	recipientPublicKey: bigint[],
+): MetadataSignature => {
+	const { R8, S } = signMessage(
+		senderPrivateKey,
+		signatureMessage(domain, payload, recipientPublicKey),
+	);
+
+	return {
+		publicKey: getKeyPair(senderPrivateKey).publicKey,
+		R8: [...R8],
+		S,
+	};
+};
+
+/**
+ * Verifies a signature created with signPayload
+ * @param domain Domain of the payload format
+ * @param payload Signed payload
+ * @param signature Signature of the payload
+ * @param recipientPublicKey Public key of the recipient
+ * @param senderPublicKey Public key of the sender, e.g. Registrar.getUserPublicKey of the PrivateMessage sender
+ * @returns True if the payload is signed by the sender for the recipient
+ */
+export const verifyPayload = (
+	domain: string,
+	payload: Uint8Array,
+	signature: MetadataSignature,
+	recipientPublicKey: bigint[],
+	senderPublicKey: bigint[],
+): boolean => {
+	if (
+		signature.publicKey.length !== 2 ||
+		signature.publicKey[0] !== BigInt(senderPublicKey[0]) ||
+		signature.publicKey[1] !== BigInt(senderPublicKey[1])
+	) {
+		return false;
+	}
+
+	return verifySignature(
+		signatureMessage(domain, payload, recipientPublicKey),
+		{ R8: signature.R8, S: signature.S },
+		signature.publicKey,
+	);
+};
@@ -0,0 +1,352 @@
+import {
+	Base8,
+	type Point,
+	addPoint,
+	mulPointEscalar,
+} from "@zk-kit/baby-jubjub";
+import { toBigInt, toUtf8Bytes } from "ethers";
+import { poseidon12 } from "poseidon-lite";
+import { BASE_POINT_ORDER } from "./constants";
+import {
+	type ChaumPedersenProof,
+	proveChaumPedersen,
+	verifyChaumPedersen,
+} from "./jub/disclosure";
+import { validatePoint } from "./jub/validation";
+import { formatPrivKeyForBabyJub } from "./keys";
+import { processPoseidonDecryptionWithSharedKey } from "./poseidon";
+import { type RandomSource, cryptoRandomSource, randomScalar } from "./random";
+import { PoseidonCiphertext } from "./types";
+
+/**
+ * Shamir share of the auditor key, the evaluation of the sharing polynomial at index
+ */
+export interface AuditorKeyShare {
+	// x coordinate of the share, 1 <= index <= number of shares
+	index: number;
+	// f(index) mod BASE_POINT_ORDER
+	secret: bigint;
+}
+
+/**
+ * Public part of a key share, share.secret * Base8
+ * published by the dealer so partial decryptions can be checked against the holder that made them
+ */
+export interface AuditorVerificationKey {
+	index: number;
+	publicKey: bigint[];
+}
+
+/**
+ * Partial ECDH share of a PCT, authKey * share.secret
+ */
+export interface PartialDecryption {
+	index: number;
+	point: bigint[];
+	// proves that log_Base8(verification key) == log_authKey(point)
+	proof: ChaumPedersenProof;
+}
+
+/**
+ * Thrown when a partial decryption is not a valid point or its proof does not verify
+ */
+export class InvalidPartialDecryptionError extends Error {
+	// index of the share holder that made the partial decryption
+	readonly index: number;
+
+	constructor(index: number, reason: string) {
+		super(`Invalid partial decryption from share ${index}: ${reason}`);
+		this.name = "InvalidPartialDecryptionError";
+		this.index = index;
+	}
+}
+
+// domain separator of the Fiat-Shamir challenge, the utf-8 bytes of the tag as a field element
+const PARTIAL_DECRYPTION_PROOF_DOMAIN = toBigInt(
+	toUtf8Bytes("eERC partial decryption proof"),
+);
+
+/**
+ * Reduces a value modulo BASE_POINT_ORDER
+ * @param value Value to reduce
+ * @returns value mod BASE_POINT_ORDER, always non-negative
+ */
+const mod = (value: bigint): bigint =>
+	((value % BASE_POINT_ORDER) + BASE_POINT_ORDER) % BASE_POINT_ORDER;
+
+/**
+ * Computes the inverse modulo BASE_POINT_ORDER (a prime) with Fermat's little theorem
+ * @param value Value to invert, must be non-zero
+ * @returns value^-1 mod BASE_POINT_ORDER
+ */
+const inverse = (value: bigint): bigint => {
+	let result = 1n;
+	let base = mod(value);
+	let exponent = BASE_POINT_ORDER - 2n;
+	while (exponent > 0n) {
+		if (exponent & 1n) {
+			result = (result * base) % BASE_POINT_ORDER;
+		}
+		base = (base * base) % BASE_POINT_ORDER;
+		exponent >>= 1n;
+	}
+	return result;
+};
+
+/**
+ * Computes the Lagrange coefficient of index at x = 0 for a set of indices
+ * @param index Index of the share
+ * @param indices Indices of all the shares being combined
+ * @returns Lagrange coefficient mod BASE_POINT_ORDER
+ */
+const lagrangeCoefficient = (index: number, indices: number[]): bigint => {
+	let numerator = 1n;
+	let denominator = 1n;
+	for (const other of indices) {
+		if (other === index) {
+			continue;
+		}
+		numerator = mod(numerator * BigInt(other));
+		denominator = mod(denominator * BigInt(other - index));
+	}
+	return mod(numerator * inverse(denominator));
+};
+
+/**
+ * Computes the Fiat-Shamir challenge of a partial decryption proof
+ * @param index Index of the share
+ * @param verificationKey share.secret * Base8
+ * @param authKey Authentication key of the PCT
+ * @param point Partial decryption
+ * @param a Commitment k * Base8
+ * @param b Commitment k * authKey
+ * @returns Challenge modulo BASE_POINT_ORDER
+ */
+const partialDecryptionChallenge = (
+	index: number,
+	verificationKey: bigint[],
+	authKey: bigint[],
+	point: bigint[],
+	a: bigint[],
+	b: bigint[],
+): bigint =>
+	poseidon12([
+		PARTIAL_DECRYPTION_PROOF_DOMAIN,
+		BigInt(index),
+		...verificationKey,
+		...authKey,
+		...point,
+		...a,
+		...b,
+	]) % BASE_POINT_ORDER;
+
+/**
+ * @param share Auditor key share
+ * @returns Verification key of the share
+ */
+export const getVerificationKey = (
+	share: AuditorKeyShare,
+): AuditorVerificationKey => ({
+	index: share.index,
+	publicKey: mulPointEscalar(Base8, share.secret),
+});
+
+/**
+ * Splits the auditor private key into Shamir shares, any threshold of them can decrypt auditor PCTs
+ * this is a trusted dealer scheme, the dealer sees the key and should erase it after distributing the shares
+ * @param privateKey Auditor private key, same format as User.privateKey
+ * @param threshold Number of shares needed to decrypt
+ * @param shares Total number of shares
+ * @param rng Random source for the polynomial coefficients
+ * @returns Auditor public key (the one set in AuditorManager), the shares and their verification keys to publish
+ */
+export const splitAuditorKey = (
+	privateKey: bigint,
+	threshold: number,
+	shares: number,
+	rng: RandomSource = cryptoRandomSource,
+): {
+	publicKey: bigint[];
+	shares: AuditorKeyShare[];
+	verificationKeys: AuditorVerificationKey[];
+} => {
+	if (!Number.isInteger(threshold) || !Number.isInteger(shares)) {
+		throw new Error("Invalid threshold: must be an integer");
+	}
+	if (threshold < 1 || threshold > shares) {
+		throw new Error(
+			`Invalid threshold: must be between 1 and ${shares}, got ${threshold}`,
+		);
+	}
+
+	const secret = formatPrivKeyForBabyJub(privateKey) % BASE_POINT_ORDER;
+
+	// f(x) = secret + a_1 * x + ... + a_{t-1} * x^{t-1}
+	const coefficients = [secret];
+	for (let i = 1; i < threshold; i++) {
+		coefficients.push(randomScalar(rng));
+	}
+
+	const keyShares: AuditorKeyShare[] = [];
+	for (let index = 1; index <= shares; index++) {
+		const x = BigInt(index);
+		// horner's method
+		let value = 0n;
+		for (let i = coefficients.length - 1; i >= 0; i--) {
+			value = mod(value * x + coefficients[i]);
+		}
+
+		keyShares.push({ index, secret: value });
+	}
+
+	return {
+		publicKey: mulPointEscalar(Base8, secret),
+		shares: keyShares,
+		verificationKeys: keyShares.map(getVerificationKey),
+	};
+};
+
+/**
+ * Computes a share holder's partial decryption of a PCT, with a proof that it used its share
+ * @param share Auditor key share
+ * @param authKey Authentication key of the PCT (auditorPCT[4..6])
+ * @param validate Validates the authentication key, only skip it for trusted PCTs
+ * @param rng Random source for the proof nonce
+ * @returns Partial decryption authKey * share.secret
+ */
+export const computePartialDecryption = (
+	share: AuditorKeyShare,
+	authKey: bigint[],
+	validate = true,
+	rng: RandomSource = cryptoRandomSource,
+): PartialDecryption => {
+	if (validate) {
+		validatePoint(authKey, "authKey");
+	}
+
+	const { index, publicKey } = getVerificationKey(share);
+	const point = mulPointEscalar(authKey as Point<bigint>, share.secret);
+	const proof = proveChaumPedersen(
+		share.secret,
+		authKey,
+		(a, b) =>
+			partialDecryptionChallenge(index, publicKey, authKey, point, a, b),
+		rng,
+	);
+
+	return { index, point, proof };
+};
+
+/**
+ * Checks a partial decryption against the verification key of its share holder
+ * @param partial Partial decryption
+ * @param authKey Authentication key of the PCT
+ * @param verificationKeys Verification keys from splitAuditorKey
+ * @throws InvalidPartialDecryptionError naming the share holder if the partial is invalid, InvalidPointError if the authKey is
+ */
+export const verifyPartialDecryption = (
+	partial: PartialDecryption,
+	authKey: bigint[],
+	verificationKeys: AuditorVerificationKey[],
+) => {
+	// the proof says nothing about an authKey off the curve or outside the subgroup
+	validatePoint(authKey, "authKey");
+
+	const { index, point, proof } = partial;
+	const verificationKey = verificationKeys.find(
+		(candidate) => candidate.index === index,
+	);
+	if (verificationKey === undefined) {
+		throw new InvalidPartialDecryptionError(index, "unknown share index");
+	}
+
+	try {
+		validatePoint(point, "partial decryption");
+	} catch (error) {
+		throw new InvalidPartialDecryptionError(index, (error as Error).message);
+	}
+
+	const { publicKey } = verificationKey;
+	if (
+		!verifyChaumPedersen(publicKey, authKey, point, proof, (a, b) =>
+			partialDecryptionChallenge(index, publicKey, authKey, point, a, b),
+		)
+	) {
+		throw new InvalidPartialDecryptionError(index, "invalid proof");
+	}
+};
+
+/**
+ * Combines partial decryptions into the Poseidon shared key with Lagrange interpolation in the exponent
+ * every partial is checked first, so a bad share is traced to its holder instead of failing the Poseidon decryption
+ * combining fewer partials than the threshold gives a wrong key, which fails the Poseidon decryption check
+ * @param partials Partial decryptions from distinct share holders
+ * @param authKey Authentication key of the PCT the partials were computed for
+ * @param verificationKeys Verification keys from splitAuditorKey
+ * @returns Shared key authKey * privateKey
+ */
+export const combinePartialDecryptions = (
+	partials: PartialDecryption[],
+	authKey: bigint[],
+	verificationKeys: AuditorVerificationKey[],
+): bigint[] => {
+	if (partials.length === 0) {
+		throw new Error("No partial decryptions to combine");
+	}
+
+	const indices = partials.map(({ index }) => index);
+	if (new Set(indices).size !== indices.length) {
+		throw new Error("Duplicate partial decryption indices");
+	}
+	if (indices.some((index) => !Number.isInteger(index) || index < 1)) {
+		throw new Error("Invalid partial decryption index");
+	}
+
+	validatePoint(authKey, "authKey");
+	for (const verificationKey of verificationKeys) {
+		validatePoint(verificationKey.publicKey, "verification key");
+	}
+	for (const partial of partials) {
+		verifyPartialDecryption(partial, authKey, verificationKeys);
+	}
+
+	let sharedKey: Point<bigint> = [0n, 1n];
+	for (const { index, point } of partials) {
+		const coefficient = lagrangeCoefficient(index, indices);
+		sharedKey = addPoint(
+			sharedKey,
+			mulPointEscalar(point as Point<bigint>, coefficient),
+		);
+	}
+
+	return sharedKey;
+};
+
+/**
+ * Decrypts an auditor PCT with the partial decryptions of at least threshold share holders
+ * @param pct Auditor PCT as stored on-chain (uint256[7])
+ * @param partials Partial decryptions of the PCT's authKey
+ * @param verificationKeys Verification keys from splitAuditorKey
+ * @param length Length of the original input array
+ * @returns Decrypted message as an array
+ */
+export const thresholdDecryptPCT = (
+	pct: bigint[],
+	partials: PartialDecryption[],
+	verificationKeys: AuditorVerificationKey[],
+	length = 1,
+): bigint[] => {
+	const { ciphertext, authKey, nonce } = PoseidonCiphertext.fromArray(pct);
+	const sharedKey = combinePartialDecryptions(
+		partials,
+		authKey,
+		verificationKeys,
+	);
+
+	return processPoseidonDecryptionWithSharedKey(
+		ciphertext,
+		sharedKey,
+		nonce,
+		length,
+	);
+};
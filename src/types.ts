@@ -0,0 +1,226 @@
+import type { BigNumberish } from "ethers";
+import { decryptPoint } from "./jub";
+import { processPoseidonDecryption } from "./poseidon";
+
+// point as returned by the contracts, either a Point struct or a uint256[2]
+export type PointLike = { x: BigNumberish; y: BigNumberish } | BigNumberish[];
+
+// EGCT struct as returned by the contracts
+export interface EGCTLike {
+	c1: PointLike;
+	c2: PointLike;
+}
+
+// Point struct as expected by the contracts
+export interface PointStruct {
+	x: bigint;
+	y: bigint;
+}
+
+// EGCT struct as expected by the contracts
+export interface EGCTStruct {
+	c1: PointStruct;
+	c2: PointStruct;
+}
+
+/**
+ * Converts a list of values to bigints and checks its length
+ * @param values Values to convert
+ * @param length Expected length
+ * @param name Name of the value for the error message
+ * @returns Values as bigints
+ */
+const toBigInts = (
+	values: ArrayLike<BigNumberish>,
+	length: number,
+	name: string,
+): bigint[] => {
+	if (values.length !== length) {
+		throw new Error(
+			`Invalid ${name}: expected ${length} elements, got ${values.length}`,
+		);
+	}
+
+	return Array.from(values, (value) => BigInt(value));
+};
+
+/**
+ * Converts a point struct or array to [x, y]
+ * @param point Point to convert
+ * @param name Name of the value for the error message
+ * @returns Point as [x, y]
+ */
+const toPoint = (point: PointLike, name: string): bigint[] =>
+	Array.isArray(point)
+		? toBigInts(point, 2, name)
+		: [BigInt(point.x), BigInt(point.y)];
+
+/**
+ * BabyJubJub public key, as registered in the Registrar contract
+ */
+export class BabyJubPublicKey {
+	readonly x: bigint;
+	readonly y: bigint;
+
+	constructor(x: BigNumberish, y: BigNumberish) {
+		this.x = BigInt(x);
+		this.y = BigInt(y);
+	}
+
+	/**
+	 * @param value Public key as uint256[2] (Registrar.getUserPublicKey) or Point struct
+	 * @returns Public key
+	 */
+	static from(value: PointLike): BabyJubPublicKey {
+		const [x, y] = toPoint(value, "public key");
+		return new BabyJubPublicKey(x, y);
+	}
+
+	/**
+	 * Unregistered users have a [0, 0] public key in the Registrar contract
+	 * @returns True if the public key is [0, 0]
+	 */
+	isZero(): boolean {
+		return this.x === 0n && this.y === 0n;
+	}
+
+	/**
+	 * @returns Public key as [x, y], the format expected by the encryption helpers
+	 */
+	toArray(): bigint[] {
+		return [this.x, this.y];
+	}
+
+	/**
+	 * @returns Public key as a Point struct
+	 */
+	toStruct(): PointStruct {
+		return { x: this.x, y: this.y };
+	}
+}
+
+/**
+ * El-Gamal ciphertext [c1, c2], the EGCT struct in the contracts
+ */
+export class ElGamalCiphertext {
+	readonly c1: bigint[];
+	readonly c2: bigint[];
+
+	constructor(c1: ArrayLike<BigNumberish>, c2: ArrayLike<BigNumberish>) {
+		this.c1 = toBigInts(c1, 2, "ciphertext c1");
+		this.c2 = toBigInts(c2, 2, "ciphertext c2");
+	}
+
+	/**
+	 * @param values Ciphertext as uint256[4] ([c1.x, c1.y, c2.x, c2.y])
+	 * @returns Ciphertext
+	 */
+	static fromArray(values: ArrayLike<BigNumberish>): ElGamalCiphertext {
+		const [c1x, c1y, c2x, c2y] = toBigInts(values, 4, "ciphertext");
+		return new ElGamalCiphertext([c1x, c1y], [c2x, c2y]);
+	}
+
+	/**
+	 * @param eGCT EGCT struct, e.g. balanceOf(...).eGCT
+	 * @returns Ciphertext
+	 */
+	static fromStruct(eGCT: EGCTLike): ElGamalCiphertext {
+		return new ElGamalCiphertext(
+			toPoint(eGCT.c1, "ciphertext c1"),
+			toPoint(eGCT.c2, "ciphertext c2"),
+		);
+	}
+
+	/**
+	 * @returns Ciphertext as uint256[4] ([c1.x, c1.y, c2.x, c2.y])
+	 */
+	toArray(): bigint[] {
+		return [...this.c1, ...this.c2];
+	}
+
+	/**
+	 * @returns Ciphertext as [c1, c2], the format used by the encryption helpers
+	 */
+	toTuple(): [bigint[], bigint[]] {
+		return [[...this.c1], [...this.c2]];
+	}
+
+	/**
+	 * @returns Ciphertext as an EGCT struct
+	 */
+	toStruct(): EGCTStruct {
+		return {
+			c1: { x: this.c1[0], y: this.c1[1] },
+			c2: { x: this.c2[0], y: this.c2[1] },
+		};
+	}
+
+	/**
+	 * @param privateKey Private key to decrypt the ciphertext
+	 * @returns The decrypted point
+	 */
+	decrypt(privateKey: bigint): bigint[] {
+		return decryptPoint(privateKey, this.c1, this.c2);
+	}
+}
+
+/**
+ * Poseidon ciphertext (PCT) of a single value, the uint256[7] PCTs in the contracts
+ * layout: ciphertext[4] | authKey[2] | nonce
+ */
+export class PoseidonCiphertext {
+	static readonly LENGTH = 7;
+
+	readonly ciphertext: bigint[];
+	readonly authKey: bigint[];
+	readonly nonce: bigint;
+
+	constructor(
+		ciphertext: ArrayLike<BigNumberish>,
+		authKey: ArrayLike<BigNumberish>,
+		nonce: BigNumberish,
+	) {
+		this.ciphertext = toBigInts(ciphertext, 4, "PCT ciphertext");
+		this.authKey = toBigInts(authKey, 2, "PCT authKey");
+		this.nonce = BigInt(nonce);
+	}
+
+	/**
+	 * @param values PCT as uint256[7]
+	 * @returns PCT
+	 */
+	static fromArray(values: ArrayLike<BigNumberish>): PoseidonCiphertext {
+		const pct = toBigInts(values, PoseidonCiphertext.LENGTH, "PCT");
+		return new PoseidonCiphertext(pct.slice(0, 4), pct.slice(4, 6), pct[6]);
+	}
+
+	/**
+	 * Balance PCTs are all zeros until the first spend
+	 * @returns True if every element of the PCT is zero
+	 */
+	isEmpty(): boolean {
+		return this.toArray().every((value) => value === 0n);
+	}
+
+	/**
+	 * @returns PCT as uint256[7]
+	 */
+	toArray(): bigint[] {
+		return [...this.ciphertext, ...this.authKey, this.nonce];
+	}
+
+	/**
+	 * @param privateKey Private key to decrypt the PCT
+	 * @param length Length of the original input array
+	 * @returns Decrypted message as an array
+	 */
+	decrypt(privateKey: bigint, length = 1): bigint[] {
+		return processPoseidonDecryption(
+			this.ciphertext,
+			this.authKey,
+			this.nonce,
+			privateKey,
+			length,
+		);
+	}
+}
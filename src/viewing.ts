@@ -0,0 +1,429 @@
+import { Fr, type Point, addPoint, mulPointEscalar } from "@zk-kit/baby-jubjub";
+import { type BigNumberish, getAddress, toBigInt, toUtf8Bytes } from "ethers";
+import { poseidon11 } from "poseidon-lite";
+import { BASE_POINT_ORDER } from "./constants";
+import {
+	type DecodedEnvelope,
+	type MetadataCompressor,
+	decryptEnvelopeWithSharedKey,
+} from "./envelope";
+import {
+	type ChaumPedersenProof,
+	type DiscreteLogOptions,
+	isUninitializedCiphertext,
+	proveChaumPedersen,
+	solveDiscreteLog,
+	validatePoint,
+	verifyChaumPedersen,
+} from "./jub";
+import { formatPrivKeyForBabyJub, getKeyPair } from "./keys";
+import {
+	InvalidMetadataError,
+	decryptMetadataBytesWithSharedKey,
+	decryptMetadataWithSharedKey,
+	isMultiRecipientMetadata,
+	parseMetadata,
+} from "./metadata";
+import { processPoseidonDecryptionWithSharedKey } from "./poseidon";
+import { type RandomSource, cryptoRandomSource } from "./random";
+import { type EGCTLike, ElGamalCiphertext, PoseidonCiphertext } from "./types";
+
+export const VIEWING_KEY_VERSION = 2;
+
+// domain separator of the Fiat-Shamir challenge, the utf-8 bytes of the tag as a field element
+const VIEWING_KEY_SHARE_DOMAIN = toBigInt(
+	toUtf8Bytes("eERC viewing key share"),
+);
+
+/**
+ * ECDH share of a disclosed ciphertext, point * privateKey, with a proof that it was computed with the account's key
+ */
+export interface ViewingKeyShare {
+	// authKey of a PCT or metadata, or c1 of an El-Gamal balance
+	point: [string, string];
+	// point * privateKey
+	sharedKey: [string, string];
+	proof: { a: [string, string]; b: [string, string]; z: string };
+}
+
+/**
+ * Exportable viewing key of an eERC account, given to e.g. accountants to read balances and history
+ * it holds no private key, only the shares of the ciphertexts the owner chose to disclose
+ */
+export interface ViewingKeyBundle {
+	version: number;
+	// Ethereum address of the account
+	address: string;
+	chainId: string;
+	registrar: string;
+	// BabyJubJub public key registered for the address
+	publicKey: [string, string];
+	shares: ViewingKeyShare[];
+}
+
+export interface CreateViewingKeyOptions {
+	address: string;
+	chainId: BigNumberish;
+	registrarAddress: string;
+	// balance and amount PCTs to disclose, as uint256[7]
+	pcts?: ArrayLike<BigNumberish>[];
+	// El-Gamal balances to disclose, e.g. from balanceOf
+	eGCTs?: EGCTLike[];
+	// metadata of PrivateMessage events to disclose, from encryptMetadata, encryptMetadataBytes or encryptEnvelope
+	messages?: string[];
+	// random source for the share proofs
+	rng?: RandomSource;
+}
+
+/**
+ * Thrown when a view-only account is asked to decrypt a ciphertext its bundle has no share for
+ */
+export class UndisclosedCiphertextError extends Error {
+	constructor() {
+		super("Ciphertext is not disclosed in the viewing key");
+		this.name = "UndisclosedCiphertextError";
+	}
+}
+
+// amountPCTs as returned by the contracts, AmountPCT structs or plain uint256[7]
+type AmountPCTLike = { pct: ArrayLike<BigNumberish> } | ArrayLike<BigNumberish>;
+
+/**
+ * @param point Point to convert
+ * @returns Point as decimal strings, the JSON format of the bundle
+ */
+const toStrings = (point: bigint[]): [string, string] => [
+	point[0].toString(),
+	point[1].toString(),
+];
+
+/**
+ * @param point Disclosed point
+ * @returns Key of the point in the shares of a view-only account
+ */
+const pointId = (point: bigint[]): string => `${point[0]},${point[1]}`;
+
+/**
+ * @param encryptedMessage Metadata of a PrivateMessage event
+ * @returns authKey of the message, the point its share is computed for
+ */
+const metadataAuthKey = (encryptedMessage: string): bigint[] => {
+	// decryptMetadataForRecipient needs the private key to unwrap the content key, it has no shared-key variant
+	if (isMultiRecipientMetadata(encryptedMessage)) {
+		throw new InvalidMetadataError(
+			"Invalid metadata: multi-recipient messages can not be read with a viewing key",
+		);
+	}
+	return parseMetadata(encryptedMessage).authKey;
+};
+
+/**
+ * Computes the Fiat-Shamir challenge of a viewing key share proof
+ * @param publicKey Public key of the account
+ * @param point Disclosed point
+ * @param sharedKey point * privateKey
+ * @param a Commitment k * Base8
+ * @param b Commitment k * point
+ * @returns Challenge modulo BASE_POINT_ORDER
+ */
+const shareChallenge = (
+	publicKey: bigint[],
+	point: bigint[],
+	sharedKey: bigint[],
+	a: bigint[],
+	b: bigint[],
+): bigint =>
+	poseidon11([
+		VIEWING_KEY_SHARE_DOMAIN,
+		...publicKey,
+		...point,
+		...sharedKey,
+		...a,
+		...b,
+	]) % BASE_POINT_ORDER;
+
+/**
+ * Creates the viewing key bundle of an account for a set of ciphertexts
+ * the bundle only reads the ciphertexts disclosed here, not the ones the account receives afterwards,
+ * and multi-recipient metadata from encryptMetadataForRecipients can not be disclosed
+ * @param privateKey Private key of the account, same format as User.privateKey, it is not part of the bundle
+ * @param options Address of the account, chain ID, Registrar address and the ciphertexts to disclose
+ * @returns Viewing key bundle
+ */
+export const createViewingKey = (
+	privateKey: bigint,
+	options: CreateViewingKeyOptions,
+): ViewingKeyBundle => {
+	const { publicKey } = getKeyPair(privateKey);
+	const secret = formatPrivKeyForBabyJub(privateKey) % BASE_POINT_ORDER;
+
+	const points = [
+		...(options.pcts ?? [])
+			.map((pct) => PoseidonCiphertext.fromArray(pct))
+			.filter((pct) => !pct.isEmpty())
+			.map(({ authKey }) => authKey),
+		...(options.eGCTs ?? [])
+			.map((eGCT) => ElGamalCiphertext.fromStruct(eGCT))
+			.filter(({ c1, c2 }) => !isUninitializedCiphertext(c1, c2))
+			.map(({ c1 }) => c1),
+		...(options.messages ?? []).map(metadataAuthKey),
+	];
+
+	const shares = new Map<string, ViewingKeyShare>();
+	for (const point of points) {
+		if (shares.has(pointId(point))) {
+			continue;
+		}
+		// a point outside the subgroup would leak the low bits of the key
+		validatePoint(point, "disclosed point");
+
+		const sharedKey = mulPointEscalar(point as Point<bigint>, secret);
+		const { a, b, z } = proveChaumPedersen(
+			secret,
+			point,
+			(a, b) => shareChallenge(publicKey, point, sharedKey, a, b),
+			options.rng ?? cryptoRandomSource,
+		);
+
+		shares.set(pointId(point), {
+			point: toStrings(point),
+			sharedKey: toStrings(sharedKey),
+			proof: { a: toStrings(a), b: toStrings(b), z: z.toString() },
+		});
+	}
+
+	return {
+		version: VIEWING_KEY_VERSION,
+		address: getAddress(options.address),
+		chainId: BigInt(options.chainId).toString(),
+		registrar: getAddress(options.registrarAddress),
+		publicKey: toStrings(publicKey),
+		shares: [...shares.values()],
+	};
+};
+
+/**
+ * Read-only view of an eERC account, built from a viewing key bundle
+ *
+ * It can:
+ * - decrypt the balance PCTs, amount PCTs and El-Gamal balances disclosed in the bundle
+ * - decrypt the metadata of the disclosed PrivateMessage events
+ *
+ * It can not:
+ * - decrypt anything that was not disclosed, e.g. amounts received after the bundle was created,
+ *   the owner has to export a new bundle for them
+ * - decrypt multi-recipient metadata from encryptMetadataForRecipients, it throws an InvalidMetadataError
+ * - build any proof in test/helpers.ts, they all need the private key, which the bundle does not contain
+ * - sign or send transactions, it has no Ethereum signer
+ *
+ * eERC has a single BabyJubJub key per account that both decrypts and spends, so there is no key that only
+ * decrypts. The bundle holds point * privateKey for every disclosed authKey and c1 instead, with a
+ * Chaum-Pedersen proof that the owner computed it with the registered key
+ */
+export class ViewOnlyAccount {
+	readonly address: string;
+	readonly chainId: bigint;
+	readonly registrar: string;
+	readonly publicKey: bigint[];
+
+	readonly #bundle: ViewingKeyBundle;
+	readonly #sharedKeys: Map<string, bigint[]>;
+
+	private constructor(
+		bundle: ViewingKeyBundle,
+		sharedKeys: Map<string, bigint[]>,
+	) {
+		this.address = getAddress(bundle.address);
+		this.chainId = BigInt(bundle.chainId);
+		this.registrar = getAddress(bundle.registrar);
+		this.publicKey = bundle.publicKey.map((x) => BigInt(x));
+		this.#bundle = bundle;
+		this.#sharedKeys = sharedKeys;
+	}
+
+	/**
+	 * Verifies every share of the bundle against its public key
+	 * @param bundle Viewing key bundle, as an object or a JSON string
+	 * @returns View-only account
+	 */
+	static fromViewingKey(bundle: ViewingKeyBundle | string): ViewOnlyAccount {
+		const parsed: ViewingKeyBundle =
+			typeof bundle === "string" ? JSON.parse(bundle) : bundle;
+
+		if (parsed.version !== VIEWING_KEY_VERSION) {
+			throw new Error(`Unsupported viewing key version: ${parsed.version}`);
+		}
+
+		const publicKey = parsed.publicKey.map((x) => BigInt(x));
+		validatePoint(publicKey, "public key");
+
+		const sharedKeys = new Map<string, bigint[]>();
+		for (const share of parsed.shares) {
+			const point = share.point.map((x) => BigInt(x));
+			const sharedKey = share.sharedKey.map((x) => BigInt(x));
+			const proof: ChaumPedersenProof = {
+				a: share.proof.a.map((x) => BigInt(x)),
+				b: share.proof.b.map((x) => BigInt(x)),
+				z: BigInt(share.proof.z),
+			};
+
+			validatePoint(point, "disclosed point");
+			validatePoint(sharedKey, "shared key");
+			if (
+				!verifyChaumPedersen(publicKey, point, sharedKey, proof, (a, b) =>
+					shareChallenge(publicKey, point, sharedKey, a, b),
+				)
+			) {
+				throw new Error("Viewing key share does not match the public key");
+			}
+
+			sharedKeys.set(pointId(point), sharedKey);
+		}
+
+		return new ViewOnlyAccount(parsed, sharedKeys);
+	}
+
+	/**
+	 * @returns Viewing key bundle, e.g. to hand it over to someone else
+	 */
+	toViewingKey(): ViewingKeyBundle {
+		return { ...this.#bundle, shares: [...this.#bundle.shares] };
+	}
+
+	/**
+	 * @param point authKey or c1 of a disclosed ciphertext
+	 * @returns point * privateKey
+	 */
+	#sharedKey(point: bigint[]): bigint[] {
+		const sharedKey = this.#sharedKeys.get(pointId(point));
+		if (sharedKey === undefined) {
+			throw new UndisclosedCiphertextError();
+		}
+		return sharedKey;
+	}
+
+	/**
+	 * @param pct PCT as uint256[7]
+	 * @param length Length of the original input array
+	 * @returns Decrypted message as an array
+	 */
+	decryptPCT(pct: ArrayLike<BigNumberish>, length = 1): bigint[] {
+		const { ciphertext, authKey, nonce } = PoseidonCiphertext.fromArray(pct);
+		return processPoseidonDecryptionWithSharedKey(
+			ciphertext,
+			this.#sharedKey(authKey),
+			nonce,
+			length,
+		);
+	}
+
+	/**
+	 * @param balancePCT Balance PCT from balanceOf, all zeros until the first spend
+	 * @returns Decrypted balance PCT, 0 if it is empty
+	 */
+	decryptBalancePCT(balancePCT: ArrayLike<BigNumberish>): bigint {
+		const pct = PoseidonCiphertext.fromArray(balancePCT);
+		return pct.isEmpty() ? 0n : this.decryptPCT(balancePCT)[0];
+	}
+
+	/**
+	 * @param amountPCTs Amount PCTs from balanceOf, one for every incoming amount since the last spend
+	 * @returns Decrypted amounts, 0 for empty PCTs
+	 */
+	decryptAmountPCTs(amountPCTs: AmountPCTLike[]): bigint[] {
+		return amountPCTs.map((amountPCT) =>
+			this.decryptBalancePCT(
+				(amountPCT as { pct?: ArrayLike<BigNumberish> }).pct ??
+					(amountPCT as ArrayLike<BigNumberish>),
+			),
+		);
+	}
+
+	/**
+	 * Computes the balance the same way the owner does, the balance PCT plus every amount PCT
+	 * @param balancePCT Balance PCT from balanceOf
+	 * @param amountPCTs Amount PCTs from balanceOf
+	 * @returns Decrypted balance
+	 */
+	getBalance(
+		balancePCT: ArrayLike<BigNumberish>,
+		amountPCTs: AmountPCTLike[],
+	): bigint {
+		return this.decryptAmountPCTs(amountPCTs).reduce(
+			(total, amount) => total + amount,
+			this.decryptBalancePCT(balancePCT),
+		);
+	}
+
+	/**
+	 * Decrypts the El-Gamal balance from balanceOf with a discrete log search
+	 * @param eGCT Encrypted balance, an uninitialized [0, 0] balance decrypts to 0
+	 * @param options Search range and baby-step table configuration
+	 * @returns Decrypted balance, or null if it is out of the search range
+	 */
+	decryptEncryptedBalance(
+		eGCT: EGCTLike,
+		options: DiscreteLogOptions = {},
+	): bigint | null {
+		const { c1, c2 } = ElGamalCiphertext.fromStruct(eGCT);
+		if (isUninitializedCiphertext(c1, c2)) {
+			return 0n;
+		}
+
+		// c2 - c1 * privateKey, on twisted edwards curves -(x, y) = (-x, y)
+		const sharedKey = this.#sharedKey(c1);
+		const point = addPoint(c2 as Point<bigint>, [
+			Fr.e(sharedKey[0] * -1n),
+			sharedKey[1],
+		]);
+		return solveDiscreteLog(point, options);
+	}
+
+	/**
+	 * @param encryptedMessage Metadata of a PrivateMessage event
+	 * @param senderPublicKey If set, the message must be signed with this key
+	 * @returns Decrypted message
+	 */
+	decryptMetadata(
+		encryptedMessage: string,
+		senderPublicKey?: bigint[],
+	): string {
+		return decryptMetadataWithSharedKey(
+			this.#sharedKey(metadataAuthKey(encryptedMessage)),
+			encryptedMessage,
+			this.publicKey,
+			senderPublicKey,
+		);
+	}
+
+	/**
+	 * @param encryptedMessage Binary metadata of a PrivateMessage event
+	 * @returns Decrypted payload bytes
+	 */
+	decryptMetadataBytes(encryptedMessage: string): Uint8Array {
+		return decryptMetadataBytesWithSharedKey(
+			this.#sharedKey(metadataAuthKey(encryptedMessage)),
+			encryptedMessage,
+		);
+	}
+
+	/**
+	 * @param encryptedMessage Metadata envelope of a PrivateMessage event
+	 * @param senderPublicKey If set, the envelope must be signed with this key
+	 * @param compressors Compressors for compressed bodies
+	 * @returns Decoded envelope
+	 */
+	decryptEnvelope(
+		encryptedMessage: string,
+		senderPublicKey?: bigint[],
+		compressors: readonly MetadataCompressor[] = [],
+	): DecodedEnvelope {
+		return decryptEnvelopeWithSharedKey(
+			this.#sharedKey(metadataAuthKey(encryptedMessage)),
+			encryptedMessage,
+			this.publicKey,
+			senderPublicKey,
+			compressors,
+		);
+	}
+}
@@ -0,0 +1,427 @@
+import { unlinkSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	Base8,
+	Fr,
+	type Point,
+	addPoint,
+	mulPointEscalar,
+} from "@zk-kit/baby-jubjub";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+	BASE_POINT_ORDER,
+	BN254_SCALAR_FIELD,
+	InvalidPointError,
+	PointNotInSubgroupError,
+	PointNotOnCurveError,
+	PrecomputedBabyStepTable,
+	addCiphertexts,
+	addToEncryptedBalance,
+	buildBabyStepTable,
+	createSeededRandomSource,
+	decryptMessage,
+	decryptPoint,
+	encryptMessage,
+	isInSubgroup,
+	isOnCurve,
+	negateCiphertext,
+	processPoseidonDecryption,
+	processPoseidonEncryption,
+	proveDecryption,
+	rerandomize,
+	scalarMulCiphertext,
+	serializeBabyStepTable,
+	solveDiscreteLog,
+	subCiphertexts,
+	verifyDecryption,
+} from "../src";
+import { loadBabyStepTable, writeBabyStepTable } from "../src/node";
+import { User } from "./user";
+
+describe("BabyJubJub Functions", () => {
+	let user: User;
+
+	before(async () => {
+		const [signer] = await ethers.getSigners();
+		user = new User(signer);
+	});
+
+	describe("solveDiscreteLog and decryptMessage", () => {
+		const options = { maxValue: 2n ** 20n };
+
+		it("should recover small scalars", async () => {
+			for (const value of [0n, 1n, 2n, 1023n, 1024n, 1025n]) {
+				const point = mulPointEscalar(Base8, value);
+				expect(solveDiscreteLog(point, options)).to.equal(value);
+			}
+		});
+
+		it("should recover scalars close to the upper bound", async () => {
+			const value = 2n ** 20n - 1n;
+			const point = mulPointEscalar(Base8, value);
+			expect(solveDiscreteLog(point, options)).to.equal(value);
+		});
+
+		it("should return null for scalars outside of the range", async () => {
+			const point = mulPointEscalar(Base8, 2n ** 21n + 7n);
+			expect(solveDiscreteLog(point, options)).to.be.null;
+		});
+
+		it("should return null just above the range when the baby steps do not divide it", async () => {
+			// 3 giant steps of 400 cover [0, 1200)
+			const custom = { maxValue: 1000n, babySteps: 400 };
+			const solve = (value: bigint) =>
+				solveDiscreteLog(mulPointEscalar(Base8, value), custom);
+
+			expect(solve(999n)).to.equal(999n);
+			expect(solve(1000n)).to.be.null;
+			expect(solve(1100n)).to.be.null;
+		});
+
+		it("should accept a prebuilt baby-step table", async () => {
+			const table = buildBabyStepTable(512);
+			const value = 123456n;
+			const point = mulPointEscalar(Base8, value);
+
+			expect(solveDiscreteLog(point, { ...options, table })).to.equal(value);
+		});
+
+		it("should decrypt an el-gamal ciphertext to the plain amount", async () => {
+			const amount = 98765n;
+			const { cipher } = encryptMessage(user.publicKey, amount);
+
+			const decrypted = decryptMessage(
+				user.privateKey,
+				cipher[0],
+				cipher[1],
+				options,
+			);
+			expect(decrypted).to.equal(amount);
+		});
+	});
+
+	describe("Precomputed baby-step tables", () => {
+		const options = { maxValue: 2n ** 20n };
+
+		it("should solve discrete logs with a serialized table", async () => {
+			const table = new PrecomputedBabyStepTable(serializeBabyStepTable(1024));
+			expect(table.size).to.equal(1024);
+
+			for (const value of [0n, 1n, 1023n, 1024n, 2n ** 20n - 1n]) {
+				const point = mulPointEscalar(Base8, value);
+				expect(solveDiscreteLog(point, { ...options, table })).to.equal(value);
+			}
+		});
+
+		it("should round-trip a table through a file", async () => {
+			const path = join(tmpdir(), `dlog-table-${Date.now()}.bin`);
+			try {
+				writeBabyStepTable(path, 1024);
+				const table = loadBabyStepTable(path);
+
+				const amount = 555555n;
+				const { cipher } = encryptMessage(user.publicKey, amount);
+				const decrypted = decryptMessage(
+					user.privateKey,
+					cipher[0],
+					cipher[1],
+					{ ...options, table },
+				);
+				expect(decrypted).to.equal(amount);
+			} finally {
+				unlinkSync(path);
+			}
+		});
+
+		it("should reject corrupted tables", async () => {
+			const bytes = serializeBabyStepTable(64);
+
+			const corrupted = bytes.slice();
+			corrupted[corrupted.length - 1] ^= 1;
+			expect(() => new PrecomputedBabyStepTable(corrupted)).to.throw(
+				"checksum mismatch",
+			);
+
+			const badMagic = bytes.slice();
+			badMagic[0] = 0;
+			expect(() => new PrecomputedBabyStepTable(badMagic)).to.throw(
+				"bad magic",
+			);
+
+			expect(
+				() => new PrecomputedBabyStepTable(bytes.subarray(0, 100)),
+			).to.throw("bad dimensions");
+		});
+	});
+
+	describe("Deterministic randomness", () => {
+		it("should produce the same stream for the same seed", async () => {
+			const rng1 = createSeededRandomSource(42n);
+			const rng2 = createSeededRandomSource(42n);
+			const rng3 = createSeededRandomSource(43n);
+
+			const bytes1 = rng1.randomBytes(70);
+			expect(bytes1.length).to.equal(70);
+			expect(rng2.randomBytes(70)).to.deep.equal(bytes1);
+			expect(rng3.randomBytes(70)).to.not.deep.equal(bytes1);
+		});
+
+		it("should produce reproducible el-gamal ciphertexts", async () => {
+			const first = encryptMessage(
+				user.publicKey,
+				100n,
+				undefined,
+				createSeededRandomSource(1n),
+			);
+			const second = encryptMessage(
+				user.publicKey,
+				100n,
+				undefined,
+				createSeededRandomSource(1n),
+			);
+
+			expect(second).to.deep.equal(first);
+		});
+
+		it("should produce reproducible poseidon ciphertexts", async () => {
+			const first = processPoseidonEncryption(
+				[100n, 200n],
+				user.publicKey,
+				createSeededRandomSource(1n),
+			);
+			const second = processPoseidonEncryption(
+				[100n, 200n],
+				user.publicKey,
+				createSeededRandomSource(1n),
+			);
+
+			expect(second).to.deep.equal(first);
+
+			const decrypted = processPoseidonDecryption(
+				first.ciphertext,
+				first.authKey,
+				first.nonce,
+				user.privateKey,
+				2,
+			);
+			expect(decrypted).to.deep.equal([100n, 200n]);
+		});
+	});
+
+	describe("Homomorphic ciphertext arithmetic", () => {
+		const options = { maxValue: 2n ** 20n };
+		const decrypt = (cipher: bigint[][]) =>
+			decryptMessage(user.privateKey, cipher[0], cipher[1], options);
+
+		it("should add and subtract encrypted amounts", async () => {
+			const { cipher: a } = encryptMessage(user.publicKey, 500n);
+			const { cipher: b } = encryptMessage(user.publicKey, 200n);
+
+			expect(decrypt(addCiphertexts(a, b))).to.equal(700n);
+			expect(decrypt(subCiphertexts(a, b))).to.equal(300n);
+			expect(decrypt(subCiphertexts(a, a))).to.equal(0n);
+		});
+
+		it("should negate an encrypted amount", async () => {
+			const { cipher } = encryptMessage(user.publicKey, 42n);
+			const negated = negateCiphertext(cipher);
+
+			const point = decryptPoint(user.privateKey, negated[0], negated[1]);
+			const expected = mulPointEscalar(Base8, 42n);
+			expect(point[0]).to.equal(Fr.e(expected[0] * -1n));
+			expect(point[1]).to.equal(expected[1]);
+			expect(decrypt(addCiphertexts(cipher, negated))).to.equal(0n);
+		});
+
+		it("should multiply an encrypted amount by a scalar", async () => {
+			const { cipher } = encryptMessage(user.publicKey, 25n);
+
+			expect(decrypt(scalarMulCiphertext(cipher, 4n))).to.equal(100n);
+			expect(decrypt(scalarMulCiphertext(cipher, 0n))).to.equal(0n);
+			// scalars are reduced modulo the base point order
+			expect(
+				decrypt(scalarMulCiphertext(cipher, BASE_POINT_ORDER + 2n)),
+			).to.equal(50n);
+		});
+
+		it("should overwrite uninitialized balances like the contract", async () => {
+			const { cipher } = encryptMessage(user.publicKey, 10n);
+			const uninitialized = [
+				[0n, 0n],
+				[0n, 0n],
+			];
+
+			const balance = addToEncryptedBalance(uninitialized, cipher);
+			expect(balance).to.deep.equal(cipher);
+			expect(decrypt(addToEncryptedBalance(balance, cipher))).to.equal(20n);
+		});
+	});
+
+	describe("rerandomize", () => {
+		it("should keep the plaintext while changing both points", async () => {
+			const { cipher } = encryptMessage(user.publicKey, 1234n);
+			const refreshed = rerandomize(user.publicKey, cipher);
+
+			expect(refreshed[0]).to.not.deep.equal(cipher[0]);
+			expect(refreshed[1]).to.not.deep.equal(cipher[1]);
+			expect(
+				decryptPoint(user.privateKey, refreshed[0], refreshed[1]),
+			).to.deep.equal(decryptPoint(user.privateKey, cipher[0], cipher[1]));
+		});
+
+		it("should be deterministic for a given randomness", async () => {
+			const { cipher } = encryptMessage(user.publicKey, 1234n);
+
+			expect(rerandomize(user.publicKey, cipher, 5n)).to.deep.equal(
+				rerandomize(user.publicKey, cipher, 5n),
+			);
+			expect(rerandomize(user.publicKey, cipher, 0n)).to.deep.equal(cipher);
+		});
+	});
+
+	describe("Point validation", () => {
+		// (0, -1) has order 2, adding it to a subgroup point gives a point outside the subgroup
+		const lowOrder = [0n, Fr.e(-1n)];
+		const outsideSubgroup = addPoint(Base8, lowOrder as Point<bigint>);
+
+		it("should check curve and subgroup membership", async () => {
+			expect(isOnCurve(user.publicKey)).to.be.true;
+			expect(isInSubgroup(user.publicKey)).to.be.true;
+			expect(isInSubgroup([0n, 1n])).to.be.true;
+
+			expect(isOnCurve([1n, 2n])).to.be.false;
+			expect(isOnCurve([Base8[0] + BN254_SCALAR_FIELD, Base8[1]])).to.be.false;
+			expect(isOnCurve(outsideSubgroup)).to.be.true;
+			expect(isInSubgroup(outsideSubgroup)).to.be.false;
+			expect(isInSubgroup(lowOrder)).to.be.false;
+		});
+
+		it("should reject invalid public keys when encrypting", async () => {
+			expect(() => encryptMessage([1n, 2n], 10n)).to.throw(
+				PointNotOnCurveError,
+				"public key",
+			);
+			expect(() => encryptMessage(outsideSubgroup, 10n)).to.throw(
+				PointNotInSubgroupError,
+			);
+			expect(() => processPoseidonEncryption([10n], outsideSubgroup)).to.throw(
+				PointNotInSubgroupError,
+			);
+		});
+
+		it("should reject invalid ciphertexts when decrypting", async () => {
+			const { cipher } = encryptMessage(user.publicKey, 10n);
+
+			expect(() => decryptPoint(user.privateKey, [0n, 0n], cipher[1])).to.throw(
+				PointNotOnCurveError,
+				"ciphertext c1",
+			);
+			expect(() =>
+				decryptPoint(user.privateKey, cipher[0], outsideSubgroup),
+			).to.throw(InvalidPointError, "ciphertext c2");
+
+			const { ciphertext, authKey, nonce } = processPoseidonEncryption(
+				[10n],
+				user.publicKey,
+			);
+			expect(() =>
+				processPoseidonDecryption(
+					ciphertext,
+					addPoint(authKey, lowOrder as Point<bigint>),
+					nonce,
+					user.privateKey,
+					1,
+				),
+			).to.throw(PointNotInSubgroupError, "authKey");
+		});
+
+		it("should decrypt the uninitialized balance to zero", async () => {
+			const uninitialized = [0n, 0n];
+
+			expect(
+				decryptPoint(user.privateKey, uninitialized, uninitialized),
+			).to.deep.equal([0n, 1n]);
+			expect(
+				decryptMessage(user.privateKey, uninitialized, uninitialized),
+			).to.equal(0n);
+			// only the all-zero ciphertext, not a zero c1 alone
+			expect(() =>
+				decryptMessage(user.privateKey, uninitialized, Base8),
+			).to.throw(PointNotOnCurveError, "ciphertext c1");
+			// nor an empty one
+			expect(() => decryptPoint(user.privateKey, [], [])).to.throw(
+				InvalidPointError,
+				"ciphertext c1",
+			);
+		});
+
+		it("should skip validation when opted out", async () => {
+			const { cipher } = encryptMessage(
+				user.publicKey,
+				10n,
+				undefined,
+				undefined,
+				false,
+			);
+
+			expect(
+				decryptMessage(user.privateKey, cipher[0], cipher[1], {}, false),
+			).to.equal(10n);
+			expect(() =>
+				decryptPoint(user.privateKey, cipher[0], outsideSubgroup, false),
+			).to.not.throw();
+		});
+	});
+
+	describe("Decryption proofs", () => {
+		it("should prove and verify the decryption of a ciphertext", async () => {
+			const { cipher } = encryptMessage(user.publicKey, 500n);
+			const proof = proveDecryption(user.privateKey, cipher, 500n);
+
+			expect(verifyDecryption(user.publicKey, cipher, 500n, proof)).to.be.true;
+		});
+
+		it("should prove the decryption of a homomorphic balance", async () => {
+			const balance = addCiphertexts(
+				encryptMessage(user.publicKey, 300n).cipher,
+				encryptMessage(user.publicKey, 200n).cipher,
+			);
+			const proof = proveDecryption(user.privateKey, balance, 500n);
+
+			expect(verifyDecryption(user.publicKey, balance, 500n, proof)).to.be.true;
+			expect(verifyDecryption(user.publicKey, balance, 0n, proof)).to.be.false;
+		});
+
+		it("should reject wrong amounts, keys and tampered proofs", async () => {
+			const { cipher } = encryptMessage(user.publicKey, 500n);
+			const proof = proveDecryption(user.privateKey, cipher, 500n);
+			const other = new User(user.signer);
+
+			expect(verifyDecryption(user.publicKey, cipher, 501n, proof)).to.be.false;
+			expect(verifyDecryption(other.publicKey, cipher, 500n, proof)).to.be
+				.false;
+			expect(
+				verifyDecryption(user.publicKey, cipher, 500n, {
+					...proof,
+					z: (proof.z + 1n) % BASE_POINT_ORDER,
+				}),
+			).to.be.false;
+			expect(
+				verifyDecryption(user.publicKey, cipher, 500n, {
+					...proof,
+					a: proof.b,
+				}),
+			).to.be.false;
+		});
+
+		it("should refuse to prove a wrong amount", async () => {
+			const { cipher } = encryptMessage(user.publicKey, 500n);
+
+			expect(() => proveDecryption(user.privateKey, cipher, 501n)).to.throw(
+				"does not decrypt to the claimed amount",
+			);
+		});
+	});
+});
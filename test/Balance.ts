@@ -0,0 +1,205 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+	type CachedBalance,
+	ElGamalCiphertext,
+	encryptMessage,
+	hashBalanceWithNonce,
+	hashEGCT,
+	isCachedBalanceValid,
+	processPoseidonEncryption,
+} from "../src";
+import type { BabyJubJubHarness } from "../typechain-types/contracts/mocks/BabyJubJubHarness";
+import { BabyJubJubHarness__factory } from "../typechain-types/factories/contracts/mocks";
+import { deployLibrary } from "./helpers";
+import { User } from "./user";
+
+describe("Balance", () => {
+	let user: User;
+
+	const encryptAmount = (amount: bigint) => {
+		const { cipher } = encryptMessage(user.publicKey, amount);
+		return ElGamalCiphertext.fromArray(cipher.flat()).toStruct();
+	};
+
+	const encryptPCT = (amount: bigint) => {
+		const { ciphertext, authKey, nonce } = processPoseidonEncryption(
+			[amount],
+			user.publicKey,
+		);
+		return [...ciphertext, ...authKey, nonce];
+	};
+
+	before(async () => {
+		const [signer] = await ethers.getSigners();
+		user = new User(signer);
+	});
+
+	describe("hashEGCT", () => {
+		it("should hash structs and arrays the same way", async () => {
+			const eGCT = encryptAmount(100n);
+			const { c1, c2 } = ElGamalCiphertext.fromStruct(eGCT);
+
+			expect(hashEGCT({ c1, c2 })).to.equal(hashEGCT(eGCT));
+		});
+
+		it("should change with the ciphertext", async () => {
+			const eGCT = encryptAmount(100n);
+			const other = {
+				c1: eGCT.c1,
+				c2: { x: eGCT.c2.x, y: eGCT.c2.y + 1n },
+			};
+
+			expect(hashEGCT(other)).to.not.equal(hashEGCT(eGCT));
+		});
+
+		it("should bind the balance hash to the nonce", async () => {
+			const balanceHash = hashEGCT(encryptAmount(100n));
+
+			expect(hashBalanceWithNonce(balanceHash, 0n)).to.not.equal(
+				hashBalanceWithNonce(balanceHash, 1n),
+			);
+		});
+	});
+
+	describe("isCachedBalanceValid", () => {
+		it("should accept the current balance", async () => {
+			const eGCT = encryptAmount(100n);
+			const cached: CachedBalance = { eGCT, nonce: 3n };
+			expect(isCachedBalanceValid(cached, { eGCT, nonce: 3n })).to.be.true;
+		});
+
+		it("should reject a balance read with an older nonce", async () => {
+			const eGCT = encryptAmount(100n);
+			const cached: CachedBalance = { eGCT, nonce: 3n };
+			expect(isCachedBalanceValid(cached, { eGCT, nonce: 4n })).to.be.false;
+		});
+
+		it("should reject a balance with the current nonce but another eGCT", async () => {
+			const cached: CachedBalance = { eGCT: encryptAmount(100n), nonce: 3n };
+			const current: CachedBalance = { eGCT: encryptAmount(70n), nonce: 3n };
+			expect(isCachedBalanceValid(cached, current)).to.be.false;
+		});
+
+		it("should reject an uninitialized balance", async () => {
+			const cached: CachedBalance = {
+				eGCT: { c1: [0n, 0n], c2: [0n, 0n] },
+				nonce: 0n,
+			};
+			expect(isCachedBalanceValid(cached, cached)).to.be.false;
+		});
+	});
+
+	describe("EncryptedUserBalances", () => {
+		let harness: BabyJubJubHarness;
+
+		const readBalance = async (): Promise<CachedBalance> => {
+			const { eGCT, nonce } = await harness.balanceOf(user.signer.address, 0);
+			return {
+				eGCT: {
+					c1: { x: eGCT.c1.x, y: eGCT.c1.y },
+					c2: { x: eGCT.c2.x, y: eGCT.c2.y },
+				},
+				nonce,
+			};
+		};
+
+		// checks the prediction against the contract for a cached balance, a balance predicted
+		// valid must be accepted by the contract
+		const expectPrediction = async (cached: CachedBalance) => {
+			const isPredictedValid = isCachedBalanceValid(
+				cached,
+				await readBalance(),
+			);
+			const [isValid] = await harness.isBalanceValid(
+				user.signer.address,
+				hashEGCT(cached.eGCT),
+			);
+
+			if (isPredictedValid) {
+				expect(isValid).to.be.true;
+			}
+			return { isPredictedValid, isValid };
+		};
+
+		before(async () => {
+			const [owner] = await ethers.getSigners();
+			const babyJubJub = await deployLibrary(owner);
+
+			const factory = new BabyJubJubHarness__factory({
+				"contracts/libraries/BabyJubJub.sol:BabyJubJub": babyJubJub,
+			});
+			harness = await factory.connect(owner).deploy();
+			await harness.waitForDeployment();
+		});
+
+		it("should reject the uninitialized balance", async () => {
+			expect(await expectPrediction(await readBalance())).to.deep.equal({
+				isPredictedValid: false,
+				isValid: false,
+			});
+		});
+
+		it("should ask to re-read a cached balance after receiving", async () => {
+			await harness.addToUserBalance(
+				user.signer.address,
+				encryptAmount(100n),
+				encryptPCT(100n),
+			);
+			const first = await readBalance();
+			expect(await expectPrediction(first)).to.deep.equal({
+				isPredictedValid: true,
+				isValid: true,
+			});
+
+			await harness.addToUserBalance(
+				user.signer.address,
+				encryptAmount(50n),
+				encryptPCT(50n),
+			);
+			const second = await readBalance();
+			// still in the history under the same nonce, but no longer the current balance
+			expect(await expectPrediction(first)).to.deep.equal({
+				isPredictedValid: false,
+				isValid: true,
+			});
+			expect(await expectPrediction(second)).to.deep.equal({
+				isPredictedValid: true,
+				isValid: true,
+			});
+		});
+
+		it("should reject a balance that was never stored under the current nonce", async () => {
+			const { nonce } = await readBalance();
+			const cached: CachedBalance = { eGCT: encryptAmount(150n), nonce };
+
+			expect(await expectPrediction(cached)).to.deep.equal({
+				isPredictedValid: false,
+				isValid: false,
+			});
+		});
+
+		it("should invalidate cached balances after a spend", async () => {
+			const cached = await readBalance();
+			const [, index] = await harness.isBalanceValid(
+				user.signer.address,
+				hashEGCT(cached.eGCT),
+			);
+
+			await harness.subtractFromUserBalance(
+				user.signer.address,
+				encryptAmount(30n),
+				encryptPCT(120n),
+				index,
+			);
+			expect(await expectPrediction(cached)).to.deep.equal({
+				isPredictedValid: false,
+				isValid: false,
+			});
+			expect(await expectPrediction(await readBalance())).to.deep.equal({
+				isPredictedValid: true,
+				isValid: true,
+			});
+		});
+	});
+});
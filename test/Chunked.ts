@@ -0,0 +1,312 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+	CHUNKED_MAGIC,
+	InvalidMetadataError,
+	MetadataInbox,
+	MetadataIncompleteError,
+	collectChunkedMessages,
+	decodeEnvelope,
+	decodeMetadataPart,
+	decryptMetadataBytes,
+	decryptMetadataPart,
+	encodeEnvelope,
+	encodeMetadataPart,
+	encryptChunkedMetadata,
+	encryptMetadataBytes,
+	reassembleMetadata,
+	sendChunkedMetadata,
+	signEnvelope,
+	splitMetadata,
+	verifyEnvelopeSignature,
+} from "../src";
+import type { EncryptedMetadataHarness } from "../typechain-types/contracts/mocks/EncryptedMetadataHarness";
+import { EncryptedMetadataHarness__factory } from "../typechain-types/factories/contracts/mocks";
+import { User } from "./user";
+
+describe("Chunked Metadata", () => {
+	let user: User;
+
+	// large enough for several parts, the default part size is 4096 bytes
+	const document = ethers.toUtf8Bytes(
+		JSON.stringify({
+			type: "kyc-attestation",
+			claims: Array.from({ length: 200 }, (_, i) => ({
+				id: i,
+				claim: `verified-${i}`,
+			})),
+		}),
+	);
+
+	before(async () => {
+		const [signer] = await ethers.getSigners();
+		user = new User(signer);
+	});
+
+	describe("splitMetadata and reassembleMetadata", () => {
+		it("should split a payload into numbered parts of one message", async () => {
+			const parts = splitMetadata(document, 1000);
+
+			expect(parts).to.have.length(Math.ceil(document.length / 1000));
+			for (const [i, part] of parts.entries()) {
+				expect(part.index).to.equal(i);
+				expect(part.count).to.equal(parts.length);
+				expect(part.messageId).to.equal(parts[0].messageId);
+				expect(part.digest).to.equal(ethers.keccak256(document));
+			}
+			expect(reassembleMetadata(parts)).to.deep.equal(document);
+		});
+
+		it("should give every payload its own message id", async () => {
+			const [first] = splitMetadata(document);
+			const [second] = splitMetadata(document);
+
+			expect(first.messageId).to.not.equal(second.messageId);
+		});
+
+		it("should send an empty payload as one part", async () => {
+			const parts = splitMetadata(new Uint8Array(0));
+
+			expect(parts).to.have.length(1);
+			expect(reassembleMetadata(parts)).to.deep.equal(new Uint8Array(0));
+		});
+
+		it("should reassemble parts in any order and ignore identical copies", async () => {
+			const parts = splitMetadata(document, 1000);
+			const shuffled = [...parts].reverse();
+
+			expect(reassembleMetadata([...shuffled, parts[0]])).to.deep.equal(
+				document,
+			);
+		});
+
+		it("should reject missing, conflicting and tampered parts", async () => {
+			const parts = splitMetadata(document, 1000);
+
+			expect(() => reassembleMetadata(parts.slice(1))).to.throw(
+				MetadataIncompleteError,
+				`received ${parts.length - 1} of ${parts.length} parts`,
+			);
+
+			const tampered = { ...parts[1], data: parts[1].data.slice() };
+			tampered.data[0] ^= 1;
+			expect(() => reassembleMetadata([...parts, tampered])).to.throw(
+				InvalidMetadataError,
+				"conflicting copies",
+			);
+			expect(() =>
+				reassembleMetadata([parts[0], tampered, ...parts.slice(2)]),
+			).to.throw(InvalidMetadataError, "does not match the digest");
+
+			const [other] = splitMetadata(document, 1000);
+			expect(() => reassembleMetadata([other, ...parts.slice(1)])).to.throw(
+				InvalidMetadataError,
+				"parts of different messages",
+			);
+		});
+	});
+
+	describe("encodeMetadataPart and decodeMetadataPart", () => {
+		it("should round-trip a part", async () => {
+			const [part] = splitMetadata(document, 100);
+			const encoded = encodeMetadataPart(part);
+
+			expect(encoded[0]).to.equal(CHUNKED_MAGIC);
+			expect(decodeMetadataPart(encoded)).to.deep.equal(part);
+		});
+
+		it("should reject payloads that are not parts", async () => {
+			expect(() => decodeMetadataPart(new Uint8Array([1, 2, 3]))).to.throw(
+				InvalidMetadataError,
+				"missing magic byte",
+			);
+			expect(() =>
+				decodeMetadataPart(new Uint8Array([CHUNKED_MAGIC, 1, 2, 3])),
+			).to.throw(InvalidMetadataError, "truncated header");
+		});
+	});
+
+	describe("encryptChunkedMetadata", () => {
+		it("should encrypt every part for the receiver", async () => {
+			const { messageId, messages } = encryptChunkedMetadata(
+				user.publicKey,
+				document,
+				undefined,
+				1000,
+			);
+
+			const parts = messages.map((message) =>
+				decryptMetadataPart(user.privateKey, message),
+			);
+			expect(parts.map((part) => part.messageId)).to.deep.equal(
+				messages.map(() => messageId),
+			);
+			expect(reassembleMetadata(parts)).to.deep.equal(document);
+		});
+
+		it("should carry a signed envelope to authenticate the sender", async () => {
+			const [, signer] = await ethers.getSigners();
+			const sender = new User(signer);
+			const signed = signEnvelope(
+				{ content: { type: "binary", data: document } },
+				sender.privateKey,
+				user.publicKey,
+			);
+			const { messages } = encryptChunkedMetadata(
+				user.publicKey,
+				encodeEnvelope(signed),
+				undefined,
+				1000,
+			);
+
+			const envelope = decodeEnvelope(
+				reassembleMetadata(
+					messages.map((message) =>
+						decryptMetadataPart(user.privateKey, message),
+					),
+				),
+			);
+			expect(envelope.content).to.deep.equal({
+				type: "binary",
+				data: document,
+			});
+			const isSignedBy = (publicKey: bigint[]) =>
+				verifyEnvelopeSignature(envelope, user.publicKey, publicKey);
+			expect(isSignedBy(sender.publicKey)).to.be.true;
+			expect(isSignedBy(user.publicKey)).to.be.false;
+		});
+	});
+
+	describe("MetadataInbox", () => {
+		let harness: EncryptedMetadataHarness;
+		let sender: User;
+		let receiver: User;
+		let other: User;
+		let fromBlock: number;
+
+		const createInbox = () =>
+			new MetadataInbox(
+				ethers.provider,
+				harness.target as string,
+				receiver.signer.address,
+				receiver.privateKey,
+				{ fromBlock, decrypt: decryptMetadataBytes },
+			);
+
+		before(async () => {
+			const signers = await ethers.getSigners();
+			[sender, receiver, other] = signers.slice(1, 4).map((s) => new User(s));
+
+			harness = await new EncryptedMetadataHarness__factory(
+				signers[0],
+			).deploy();
+			await harness.waitForDeployment();
+			fromBlock = await ethers.provider.getBlockNumber();
+		});
+
+		it("should reassemble a payload sent in several transactions", async () => {
+			const { messageId, messages } = encryptChunkedMetadata(
+				receiver.publicKey,
+				document,
+				undefined,
+				1000,
+			);
+			const receipts = await sendChunkedMetadata(
+				harness.connect(sender.signer),
+				receiver.signer.address,
+				messages,
+			);
+			// a regular message in between is not a part
+			await harness
+				.connect(sender.signer)
+				.sendEncryptedMetadata(
+					receiver.signer.address,
+					encryptMetadataBytes(receiver.publicKey, new Uint8Array([1])),
+				);
+
+			const inbox = createInbox();
+			await inbox.sync();
+			const { complete, pending, invalid } = collectChunkedMessages(
+				inbox.messages,
+			);
+
+			expect(pending).to.be.empty;
+			expect(invalid).to.be.empty;
+			expect(complete).to.have.length(1);
+			expect(complete[0].messageId).to.equal(messageId);
+			expect(complete[0].from).to.equal(sender.signer.address);
+			expect(complete[0].data).to.deep.equal(document);
+			expect(complete[0].parts.map((m) => m.transactionHash)).to.deep.equal(
+				receipts.map((receipt) => receipt.hash),
+			);
+		});
+
+		it("should keep payloads pending until all parts arrived", async () => {
+			const { messageId, messages } = encryptChunkedMetadata(
+				receiver.publicKey,
+				document,
+				undefined,
+				2000,
+			);
+			await sendChunkedMetadata(
+				harness.connect(sender.signer),
+				receiver.signer.address,
+				messages.slice(0, -1),
+			);
+
+			const inbox = createInbox();
+			await inbox.sync();
+			expect(collectChunkedMessages(inbox.messages).pending).to.deep.equal([
+				{
+					from: sender.signer.address,
+					to: receiver.signer.address,
+					messageId,
+					count: messages.length,
+					received: messages.length - 1,
+				},
+			]);
+
+			await sendChunkedMetadata(
+				harness.connect(sender.signer),
+				receiver.signer.address,
+				messages.slice(-1),
+			);
+			await inbox.sync();
+			const { complete, pending } = collectChunkedMessages(inbox.messages);
+			expect(pending).to.be.empty;
+			expect(complete.map((m) => m.messageId)).to.include(messageId);
+		});
+
+		it("should not mix in parts sent by someone else", async () => {
+			const parts = splitMetadata(document, 2000);
+			const encrypt = (part: (typeof parts)[number]) =>
+				encryptMetadataBytes(receiver.publicKey, encodeMetadataPart(part));
+
+			// other sends the last part of a message started by sender
+			await sendChunkedMetadata(
+				harness.connect(sender.signer),
+				receiver.signer.address,
+				parts.slice(0, -1).map(encrypt),
+			);
+			await sendChunkedMetadata(
+				harness.connect(other.signer),
+				receiver.signer.address,
+				parts.slice(-1).map(encrypt),
+			);
+
+			const inbox = createInbox();
+			await inbox.sync();
+			const { complete, pending } = collectChunkedMessages(inbox.messages);
+
+			expect(complete.map((m) => m.messageId)).to.not.include(
+				parts[0].messageId,
+			);
+			expect(pending.map((m) => [m.from, m.messageId])).to.deep.include.members(
+				[
+					[sender.signer.address, parts[0].messageId],
+					[other.signer.address, parts[0].messageId],
+				],
+			);
+		});
+	});
+});
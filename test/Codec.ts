@@ -0,0 +1,100 @@
+import { Base8, Fr, mulPointEscalar } from "@zk-kit/baby-jubjub";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+	ENCODED_CIPHERTEXT_SIZE,
+	ENCODED_PCT_SIZE,
+	compressPoint,
+	decodeCiphertext,
+	decodePCT,
+	decompressPoint,
+	encodeCiphertext,
+	encodePCT,
+	encryptMessage,
+	processPoseidonDecryption,
+	processPoseidonEncryption,
+} from "../src";
+import { User } from "./user";
+
+describe("Codec Functions", () => {
+	let user: User;
+
+	before(async () => {
+		const [signer] = await ethers.getSigners();
+		user = new User(signer);
+	});
+
+	describe("compressPoint and decompressPoint", () => {
+		it("should round-trip public keys and random points", async () => {
+			const points = [
+				user.publicKey,
+				Base8,
+				[0n, 1n],
+				...[1n, 2n, 3n, 12345n].map((k) => mulPointEscalar(Base8, k)),
+			];
+
+			for (const point of points) {
+				const compressed = compressPoint(point);
+				expect(ethers.getBytes(compressed).length).to.equal(32);
+				expect(decompressPoint(compressed)).to.deep.equal([point[0], point[1]]);
+			}
+		});
+
+		it("should distinguish a point from its negation", async () => {
+			const point = mulPointEscalar(Base8, 7n);
+			const negated = [Fr.neg(point[0]), point[1]];
+
+			expect(compressPoint(point)).to.not.equal(compressPoint(negated));
+			expect(decompressPoint(compressPoint(negated))).to.deep.equal(negated);
+		});
+
+		it("should reject invalid points", async () => {
+			expect(() => compressPoint([1n, 2n])).to.throw("not on the BabyJubJub");
+			expect(() => decompressPoint("0x1234")).to.throw("expected 32 bytes");
+			// identity with the sign bit set
+			const identity = ethers.getBytes(compressPoint([0n, 1n]));
+			identity[31] |= 0x80;
+			expect(() => decompressPoint(identity)).to.throw("non-canonical");
+		});
+	});
+
+	describe("encodeCiphertext and decodeCiphertext", () => {
+		it("should round-trip el-gamal ciphertexts", async () => {
+			const { cipher } = encryptMessage(user.publicKey, 1000n);
+
+			const encoded = encodeCiphertext(cipher);
+			expect(ethers.getBytes(encoded).length).to.equal(ENCODED_CIPHERTEXT_SIZE);
+			expect(decodeCiphertext(encoded)).to.deep.equal(cipher);
+		});
+	});
+
+	describe("encodePCT and decodePCT", () => {
+		it("should round-trip PCTs", async () => {
+			const { ciphertext, authKey, nonce } = processPoseidonEncryption(
+				[1000n],
+				user.publicKey,
+			);
+			const pct = [...ciphertext, ...authKey, nonce];
+
+			const encoded = encodePCT(pct);
+			expect(ethers.getBytes(encoded).length).to.equal(ENCODED_PCT_SIZE);
+
+			const decoded = decodePCT(encoded);
+			expect(decoded).to.deep.equal(pct);
+
+			const decrypted = processPoseidonDecryption(
+				decoded.slice(0, 4),
+				decoded.slice(4, 6),
+				decoded[6],
+				user.privateKey,
+				1,
+			);
+			expect(decrypted).to.deep.equal([1000n]);
+		});
+
+		it("should reject PCTs with the wrong length", async () => {
+			expect(() => encodePCT([1n, 2n, 3n])).to.throw("expected 7 elements");
+			expect(() => decodePCT("0x00")).to.throw("expected 176 bytes");
+		});
+	});
+});
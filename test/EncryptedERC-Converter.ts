@@ -7,7 +7,9 @@ import type {
 } from "../generated-types/zkit";
 import {
 	decryptMetadata,
+	decryptMetadataForRecipient,
 	encryptMetadata,
+	encryptMetadataForRecipients,
 	processPoseidonEncryption,
 } from "../src";
 import {
@@ -956,13 +958,33 @@ describe("EncryptedERC - Converter", () => {
 					auditorPublicKey,
 				);
 
-				expect(
-					await encryptedERC
-						.connect(user.signer)
-						[
-							"withdraw(uint256,((uint256[2],uint256[2][2],uint256[2]),uint256[16]),uint256[7])"
-						](tokenId, proof, userBalancePCT),
-				).to.be.not.reverted;
+				// users[0] is also the auditor, users[1] e.g. an accountant of the user
+				const memo = ethers.toUtf8Bytes("Withdraw memo");
+				const encryptedMetadata = encryptMetadataForRecipients(
+					[user.publicKey, users[1].publicKey, auditorPublicKey],
+					memo,
+				);
+
+				const tx = await encryptedERC
+					.connect(user.signer)
+					[
+						"withdraw(uint256,((uint256[2],uint256[2][2],uint256[2]),uint256[16]),uint256[7],bytes)"
+					](tokenId, proof, userBalancePCT, encryptedMetadata);
+				const receipt = await tx.wait();
+
+				const events = await encryptedERC.queryFilter(
+					encryptedERC.filters.PrivateMessage,
+					receipt?.blockNumber || 0,
+					receipt?.blockNumber || 0,
+				);
+				const { messageType, encryptedMsg } = events[0].args.metadata;
+				expect(messageType).to.equal("WITHDRAW");
+
+				for (const recipient of [user, users[1]]) {
+					expect(
+						decryptMetadataForRecipient(recipient.privateKey, encryptedMsg),
+					).to.deep.equal(memo);
+				}
 
 				validProof = { proof, userBalancePCT };
 			});
@@ -7,7 +7,14 @@ import type {
 	CalldataRegistrationCircuitGroth16,
 	RegistrationCircuit,
 } from "../generated-types/zkit";
-import { decryptMetadata, encryptMetadata } from "../src";
+import {
+	MetadataInbox,
+	MetadataRecipientNotFoundError,
+	decryptMetadata,
+	decryptMetadataForRecipient,
+	encryptMetadata,
+	encryptMetadataForRecipients,
+} from "../src";
 import { BN254_SCALAR_FIELD } from "../src/constants";
 import { decryptPoint } from "../src/jub/jub";
 import type {
@@ -1510,5 +1517,164 @@ describe("EncryptedERC - Standalone", () => {
 			);
 			expect(decryptedMetadata).to.equal(message);
 		});
+
+		it("should send a private message readable by the sender, receiver and auditor", async () => {
+			const sender = users[1];
+			const receiver = users[4];
+			const auditorPublicKey = await encryptedERC.auditorPublicKey();
+
+			const memo = ethers.toUtf8Bytes("Shared memo");
+			const encryptedMessage = encryptMetadataForRecipients(
+				[
+					sender.publicKey,
+					receiver.publicKey,
+					[auditorPublicKey.x, auditorPublicKey.y],
+				],
+				memo,
+			);
+
+			const tx = await encryptedERC
+				.connect(sender.signer)
+				.sendEncryptedMetadata(receiver.signer.address, encryptedMessage);
+			await tx.wait();
+
+			const events = await encryptedERC.queryFilter(
+				encryptedERC.filters.PrivateMessage,
+				tx.blockNumber || 0,
+				tx.blockNumber || 0,
+			);
+			const { encryptedMsg } = events[0].args.metadata;
+
+			// users[0] is the auditor
+			for (const user of [sender, receiver, users[0]]) {
+				expect(
+					decryptMetadataForRecipient(user.privateKey, encryptedMsg),
+				).to.deep.equal(memo);
+			}
+		});
+
+		it("should list the messages of a user with the token operations they came with", async () => {
+			const sender = users[1];
+			const receiver = users[4];
+
+			const inbox = new MetadataInbox(
+				ethers.provider,
+				encryptedERC.target as string,
+				receiver.signer.address,
+				receiver.privateKey,
+			);
+			await inbox.sync();
+
+			const { MESSAGE, PRIVATE_TRANSFER } = inbox.byType();
+			expect(MESSAGE.map((m) => m.content)).to.include(
+				"Private message testing!",
+			);
+			expect(PRIVATE_TRANSFER).to.not.be.empty;
+			for (const message of PRIVATE_TRANSFER) {
+				expect(message.from).to.equal(sender.signer.address);
+				expect(message.operation?.name).to.equal("PrivateTransfer");
+				expect(message.operation?.args.from).to.equal(sender.signer.address);
+				expect(message.operation?.args.to).to.equal(receiver.signer.address);
+				expect(message.operation?.logIndex).to.be.lessThan(message.logIndex);
+			}
+
+			// the multi-recipient message is bytes, decryptMetadata can not read it
+			expect(inbox.skipped.map((m) => m.error)).to.not.be.empty;
+		});
+
+		it("should send a multi-recipient message with a private mint", async () => {
+			const receiver = users[2];
+			const { x, y } = await encryptedERC.auditorPublicKey();
+
+			const memo = ethers.toUtf8Bytes("Mint memo");
+			const encryptedMessage = encryptMetadataForRecipients(
+				[receiver.publicKey, [x, y]],
+				memo,
+			);
+			const calldata = await privateMint(1000n, receiver.publicKey, [x, y]);
+
+			const tx = await encryptedERC
+				.connect(owner)
+				[
+					"privateMint(address,((uint256[2],uint256[2][2],uint256[2]),uint256[24]),bytes)"
+				](receiver.signer.address, calldata, encryptedMessage);
+			await tx.wait();
+
+			const events = await encryptedERC.queryFilter(
+				encryptedERC.filters.PrivateMessage,
+				tx.blockNumber || 0,
+				tx.blockNumber || 0,
+			);
+			const { messageType, encryptedMsg } = events[0].args.metadata;
+			expect(messageType).to.equal("PRIVATE_MINT");
+
+			// users[0] is the auditor
+			for (const user of [receiver, users[0]]) {
+				expect(
+					decryptMetadataForRecipient(user.privateKey, encryptedMsg),
+				).to.deep.equal(memo);
+			}
+			expect(() =>
+				decryptMetadataForRecipient(users[3].privateKey, encryptedMsg),
+			).to.throw(MetadataRecipientNotFoundError);
+		});
+
+		it("should send a multi-recipient message with a private transfer", async () => {
+			const sender = users[2];
+			const receiver = users[3];
+			const { x, y } = await encryptedERC.auditorPublicKey();
+
+			const balance = await encryptedERC.balanceOfStandalone(
+				sender.signer.address,
+			);
+			const senderBalance = await getDecryptedBalance(
+				sender.privateKey,
+				balance.amountPCTs,
+				balance.balancePCT,
+				balance.eGCT,
+			);
+			const { proof, senderBalancePCT } = await privateTransfer(
+				sender,
+				senderBalance,
+				receiver.publicKey,
+				100n,
+				[...balance.eGCT.c1, ...balance.eGCT.c2],
+				[x, y],
+			);
+
+			const memo = ethers.toUtf8Bytes("Transfer memo");
+			const encryptedMessage = encryptMetadataForRecipients(
+				[sender.publicKey, receiver.publicKey, [x, y]],
+				memo,
+			);
+
+			const tx = await encryptedERC
+				.connect(sender.signer)
+				[
+					"transfer(address,uint256,((uint256[2],uint256[2][2],uint256[2]),uint256[32]),uint256[7],bytes)"
+				](
+					receiver.signer.address,
+					0n,
+					proof,
+					senderBalancePCT,
+					encryptedMessage,
+				);
+			await tx.wait();
+
+			const events = await encryptedERC.queryFilter(
+				encryptedERC.filters.PrivateMessage,
+				tx.blockNumber || 0,
+				tx.blockNumber || 0,
+			);
+			const { messageType, encryptedMsg } = events[0].args.metadata;
+			expect(messageType).to.equal("PRIVATE_TRANSFER");
+
+			// users[0] is the auditor
+			for (const user of [sender, receiver, users[0]]) {
+				expect(
+					decryptMetadataForRecipient(user.privateKey, encryptedMsg),
+				).to.deep.equal(memo);
+			}
+		});
 	});
 });
@@ -1,6 +1,31 @@
+import { Base8, mulPointEscalar } from "@zk-kit/baby-jubjub";
 import { expect } from "chai";
 import { ethers } from "hardhat";
-import { decryptMetadata, encryptMetadata, int2str, str2int } from "../src";
+import {
+	InvalidMetadataError,
+	InvalidPointError,
+	MetadataAuthKeyError,
+	MetadataAuthenticationError,
+	MetadataLengthMismatchError,
+	MetadataRecipientNotFoundError,
+	MetadataSignatureError,
+	MetadataTruncatedError,
+	createSeededRandomSource,
+	decryptMetadata,
+	decryptMetadataBytes,
+	decryptMetadataForRecipient,
+	encodeEnvelope,
+	encryptMetadata,
+	encryptMetadataBytes,
+	encryptMetadataForRecipients,
+	getPaddedLength,
+	int2str,
+	isMultiRecipientMetadata,
+	parseMetadata,
+	processPoseidonDecryption,
+	processPoseidonEncryption,
+	str2int,
+} from "../src";
 import { User } from "./user";
 
 describe("Metadata Functions", () => {
@@ -100,6 +125,24 @@ describe("Metadata Functions", () => {
 			expect(decryptMetadata(privateKey, encrypted2)).to.equal(message);
 		});
 
+		it("should produce the same ciphertext with the same seeded random source", async () => {
+			const message = "Test message";
+
+			const encrypted1 = encryptMetadata(
+				publicKey,
+				message,
+				createSeededRandomSource(7n),
+			);
+			const encrypted2 = encryptMetadata(
+				publicKey,
+				message,
+				createSeededRandomSource(7n),
+			);
+
+			expect(encrypted1).to.equal(encrypted2);
+			expect(decryptMetadata(privateKey, encrypted1)).to.equal(message);
+		});
+
 		it("should have the expected format for encrypted data", async () => {
 			const message = "Test format";
 			const encrypted = encryptMetadata(publicKey, message);
@@ -132,6 +175,444 @@ describe("Metadata Functions", () => {
 		});
 	});
 
+	describe("encryptMetadataBytes and decryptMetadataBytes", () => {
+		const testPayloads = [
+			new Uint8Array(0),
+			new Uint8Array([0]),
+			new Uint8Array([0, 0, 1, 0, 255, 0]), // leading and embedded zeros
+			new Uint8Array(31).fill(0xff), // exactly one chunk
+			new Uint8Array(32).fill(0), // one chunk plus a byte
+			ethers.getBytes(ethers.id("invoice")), // 32 byte hash
+		];
+
+		it("should round-trip binary payloads exactly", async () => {
+			for (const payload of testPayloads) {
+				const encrypted = encryptMetadataBytes(publicKey, payload);
+				const decrypted = decryptMetadataBytes(privateKey, encrypted);
+
+				expect(decrypted).to.deep.equal(payload);
+			}
+		});
+
+		it("should accept hex strings", async () => {
+			const encrypted = encryptMetadataBytes(publicKey, "0x00000102");
+			expect(
+				ethers.hexlify(decryptMetadataBytes(privateKey, encrypted)),
+			).to.equal("0x00000102");
+		});
+
+		it("should round-trip large payloads", async () => {
+			const payload = ethers.getBytes(ethers.randomBytes(1000));
+			payload[0] = 0;
+
+			const encrypted = encryptMetadataBytes(publicKey, payload);
+			expect(decryptMetadataBytes(privateKey, encrypted)).to.deep.equal(
+				payload,
+			);
+		});
+
+		it("should not reveal the byte length in the clear", async () => {
+			const short = encryptMetadataBytes(publicKey, new Uint8Array(1));
+			const long = encryptMetadataBytes(publicKey, new Uint8Array(31));
+
+			// both are the byte length plus one chunk
+			expect(short.slice(0, 66)).to.equal(long.slice(0, 66));
+			expect(short.length).to.equal(long.length);
+		});
+
+		it("should reject a string message", async () => {
+			const encrypted = encryptMetadata(publicKey, "Hello, World!");
+			expect(() => decryptMetadataBytes(privateKey, encrypted)).to.throw(
+				"Invalid metadata",
+			);
+		});
+	});
+
+	describe("parseMetadata", () => {
+		// replaces the 32 byte word at index
+		const replaceWord = (encrypted: string, index: number, value: bigint) =>
+			`${encrypted.slice(0, 2 + index * 64)}${ethers.toBeHex(value, 32).slice(2)}${encrypted.slice(2 + (index + 1) * 64)}`;
+
+		const expectError = (
+			encrypted: string,
+			errorClass: typeof InvalidMetadataError,
+		) => {
+			let error: unknown;
+			try {
+				decryptMetadata(privateKey, encrypted);
+			} catch (e) {
+				error = e;
+			}
+			expect(error).to.be.instanceOf(errorClass);
+			expect(error).to.be.instanceOf(InvalidMetadataError);
+		};
+
+		let encrypted: string;
+
+		before(async () => {
+			encrypted = encryptMetadata(publicKey, "Hello, World!");
+		});
+
+		it("should parse a valid message", async () => {
+			const { length, nonce, authKey, ciphertext } = parseMetadata(encrypted);
+
+			expect(length).to.equal(1);
+			expect(nonce < 2n ** 128n).to.be.true;
+			expect(authKey).to.have.lengthOf(2);
+			expect(ciphertext).to.have.lengthOf(4);
+			expect(parseMetadata(encrypted.slice(2))).to.deep.equal(
+				parseMetadata(encrypted),
+			);
+		});
+
+		it("should reject payloads that are not hex", async () => {
+			expectError("0xzz", InvalidMetadataError);
+			expectError("0x123", InvalidMetadataError);
+		});
+
+		it("should reject truncated payloads", async () => {
+			expectError("0x", MetadataTruncatedError);
+			expectError(encrypted.slice(0, 2 + 3 * 64), MetadataTruncatedError);
+			expectError(
+				encrypted.slice(0, encrypted.length - 2),
+				MetadataTruncatedError,
+			);
+		});
+
+		it("should reject a length that does not match the ciphertext", async () => {
+			expectError(
+				encrypted.slice(0, encrypted.length - 64),
+				MetadataLengthMismatchError,
+			);
+			expectError(replaceWord(encrypted, 0, 4n), MetadataLengthMismatchError);
+			expectError(replaceWord(encrypted, 0, 0n), MetadataLengthMismatchError);
+			expectError(
+				replaceWord(encrypted, 0, 2n ** 255n),
+				MetadataLengthMismatchError,
+			);
+		});
+
+		it("should reject an authKey that is not on the curve", async () => {
+			const { authKey } = parseMetadata(encrypted);
+
+			expectError(
+				replaceWord(encrypted, 2, authKey[0] + 1n),
+				MetadataAuthKeyError,
+			);
+		});
+
+		it("should reject tampered ciphertexts", async () => {
+			const { ciphertext } = parseMetadata(encrypted);
+
+			expectError(
+				replaceWord(encrypted, 4, ciphertext[0] + 1n),
+				MetadataAuthenticationError,
+			);
+			expectError(replaceWord(encrypted, 1, 1n), MetadataAuthenticationError);
+		});
+
+		it("should reject messages for another key", async () => {
+			const other = encryptMetadata([...mulPointEscalar(Base8, 5n)], "Hello");
+			expectError(other, MetadataAuthenticationError);
+		});
+
+		it("should reject tampered binary payloads", async () => {
+			const binary = encryptMetadataBytes(publicKey, new Uint8Array(40));
+			const { ciphertext } = parseMetadata(binary);
+
+			expect(() =>
+				decryptMetadataBytes(
+					privateKey,
+					replaceWord(binary, 5, ciphertext[1] + 1n),
+				),
+			).to.throw(MetadataAuthenticationError);
+		});
+	});
+
+	describe("encryptMetadataForRecipients and decryptMetadataForRecipient", () => {
+		let recipients: User[];
+		let outsider: User;
+
+		before(async () => {
+			const signers = await ethers.getSigners();
+			recipients = signers.slice(1, 4).map((signer) => new User(signer));
+			outsider = new User(signers[4]);
+		});
+
+		it("should be readable by every recipient", async () => {
+			const payload = encodeEnvelope({
+				content: { type: "text", text: "Shared memo" },
+				invoiceId: "42",
+			});
+			const encrypted = encryptMetadataForRecipients(
+				recipients.map(({ publicKey }) => publicKey),
+				payload,
+			);
+
+			for (const recipient of recipients) {
+				expect(
+					decryptMetadataForRecipient(recipient.privateKey, encrypted),
+				).to.deep.equal(payload);
+			}
+		});
+
+		it("should encrypt the payload once", async () => {
+			const payload = new Uint8Array(200);
+			const single = encryptMetadataForRecipients(
+				[recipients[0].publicKey],
+				payload,
+			);
+			const multiple = encryptMetadataForRecipients(
+				recipients.map(({ publicKey }) => publicKey),
+				payload,
+			);
+
+			// one tag and wrapped content key per extra recipient
+			expect((multiple.length - single.length) / 2).to.equal(2 * 5 * 32);
+		});
+
+		it("should be told apart from single recipient messages", async () => {
+			const encrypted = encryptMetadataForRecipients(
+				[recipients[0].publicKey],
+				new Uint8Array([1]),
+			);
+
+			expect(isMultiRecipientMetadata(encrypted)).to.be.true;
+			expect(isMultiRecipientMetadata(encryptMetadata(publicKey, "a"))).to.be
+				.false;
+			expect(() => decryptMetadataBytes(privateKey, encrypted)).to.throw(
+				MetadataLengthMismatchError,
+			);
+			expect(() =>
+				decryptMetadataForRecipient(
+					privateKey,
+					encryptMetadataBytes(publicKey, new Uint8Array(100)),
+				),
+			).to.throw(InvalidMetadataError);
+		});
+
+		it("should reject keys that are not recipients", async () => {
+			const encrypted = encryptMetadataForRecipients(
+				recipients.map(({ publicKey }) => publicKey),
+				new Uint8Array([1, 2, 3]),
+			);
+
+			expect(() =>
+				decryptMetadataForRecipient(outsider.privateKey, encrypted),
+			).to.throw(MetadataRecipientNotFoundError);
+		});
+
+		it("should reject tampered messages", async () => {
+			const encrypted = encryptMetadataForRecipients(
+				recipients.map(({ publicKey }) => publicKey),
+				new Uint8Array([1, 2, 3]),
+			);
+			// flips the last byte of the ciphertext, then of the first wrapped key
+			const flip = (index: number) =>
+				`${encrypted.slice(0, index)}${(
+					Number.parseInt(encrypted.slice(index, index + 2), 16) ^ 1
+				)
+					.toString(16)
+					.padStart(2, "0")}${encrypted.slice(index + 2)}`;
+
+			expect(() =>
+				decryptMetadataForRecipient(
+					recipients[0].privateKey,
+					flip(encrypted.length - 2),
+				),
+			).to.throw(MetadataAuthenticationError);
+			expect(() =>
+				decryptMetadataForRecipient(
+					recipients[0].privateKey,
+					flip(2 + 8 * 64 - 2),
+				),
+			).to.throw(MetadataAuthenticationError);
+			expect(() =>
+				decryptMetadataForRecipient(
+					recipients[0].privateKey,
+					encrypted.slice(0, 2 + 10 * 64),
+				),
+			).to.throw(MetadataLengthMismatchError);
+		});
+
+		it("should reject an invalid recipient list", async () => {
+			expect(() =>
+				encryptMetadataForRecipients([], new Uint8Array([1])),
+			).to.throw("Invalid recipients");
+			expect(() =>
+				encryptMetadataForRecipients([[1n, 2n]], new Uint8Array([1])),
+			).to.throw(InvalidPointError);
+		});
+	});
+
+	describe("padding", () => {
+		it("should round lengths up to the buckets", async () => {
+			expect(
+				[1, 2, 4, 5, 16, 17, 64, 65, 200].map((length) =>
+					getPaddedLength(length),
+				),
+			).to.deep.equal([1, 4, 4, 16, 16, 64, 64, 128, 256]);
+			expect(getPaddedLength(5, false)).to.equal(5);
+			expect(getPaddedLength(3, [8, 2])).to.equal(8);
+			expect(() => getPaddedLength(3, [])).to.throw("Invalid padding");
+		});
+
+		it("should hide the length of messages in the same bucket", async () => {
+			const short = encryptMetadata(publicKey, "a", undefined, true);
+			const long = encryptMetadata(publicKey, "a".repeat(60), undefined, true);
+
+			expect(short.length).to.equal(long.length);
+			expect(short.slice(0, 66)).to.equal(long.slice(0, 66));
+			expect(parseMetadata(short).length).to.equal(4);
+			expect(decryptMetadata(privateKey, short)).to.equal("a");
+			expect(decryptMetadata(privateKey, long)).to.equal("a".repeat(60));
+		});
+
+		it("should pad every message size", async () => {
+			for (const message of ["", "Hello", "a".repeat(500), "a".repeat(3000)]) {
+				const encrypted = encryptMetadata(publicKey, message, undefined, true);
+				const { length } = parseMetadata(encrypted);
+
+				expect(getPaddedLength(length)).to.equal(length);
+				expect(decryptMetadata(privateKey, encrypted)).to.equal(message);
+			}
+		});
+
+		it("should use custom buckets", async () => {
+			const encrypted = encryptMetadata(publicKey, "Hello", undefined, [8]);
+
+			expect(parseMetadata(encrypted).length).to.equal(8);
+			expect(decryptMetadata(privateKey, encrypted)).to.equal("Hello");
+		});
+
+		it("should pad binary and multi-recipient payloads", async () => {
+			const payload = new Uint8Array([0, 1, 0]);
+
+			const binary = encryptMetadataBytes(publicKey, payload, undefined, true);
+			expect(parseMetadata(binary).length).to.equal(4);
+			expect(decryptMetadataBytes(privateKey, binary)).to.deep.equal(payload);
+
+			const multiple = encryptMetadataForRecipients(
+				[publicKey],
+				payload,
+				undefined,
+				true,
+			);
+			expect(multiple.length).to.equal(
+				encryptMetadataForRecipients(
+					[publicKey],
+					new Uint8Array(90),
+					undefined,
+					true,
+				).length,
+			);
+			expect(decryptMetadataForRecipient(privateKey, multiple)).to.deep.equal(
+				payload,
+			);
+		});
+	});
+
+	describe("signatures", () => {
+		let sender: User;
+		let other: User;
+
+		before(async () => {
+			const signers = await ethers.getSigners();
+			sender = new User(signers[1]);
+			other = new User(signers[2]);
+		});
+
+		it("should verify signed messages against the sender key", async () => {
+			for (const message of ["", "I owe you 100", "élève 🚀 ".repeat(20)]) {
+				const encrypted = encryptMetadata(
+					publicKey,
+					message,
+					undefined,
+					false,
+					sender.privateKey,
+				);
+
+				expect(
+					decryptMetadata(privateKey, encrypted, sender.publicKey),
+				).to.equal(message);
+				// the signature is only checked when the sender key is given
+				expect(decryptMetadata(privateKey, encrypted)).to.equal(message);
+			}
+		});
+
+		it("should sign padded messages", async () => {
+			const encrypted = encryptMetadata(
+				publicKey,
+				"rent",
+				undefined,
+				true,
+				sender.privateKey,
+			);
+
+			expect(parseMetadata(encrypted).length).to.equal(16);
+			expect(decryptMetadata(privateKey, encrypted, sender.publicKey)).to.equal(
+				"rent",
+			);
+		});
+
+		it("should reject unsigned messages and other senders", async () => {
+			expect(() =>
+				decryptMetadata(
+					privateKey,
+					encryptMetadata(publicKey, "rent"),
+					sender.publicKey,
+				),
+			).to.throw(MetadataSignatureError, "not signed");
+
+			const signed = encryptMetadata(
+				publicKey,
+				"rent",
+				undefined,
+				false,
+				other.privateKey,
+			);
+			expect(() =>
+				decryptMetadata(privateKey, signed, sender.publicKey),
+			).to.throw(MetadataSignatureError, "does not match the sender");
+		});
+
+		it("should reject messages forwarded to another recipient", async () => {
+			const signed = encryptMetadata(
+				other.publicKey,
+				"rent",
+				undefined,
+				false,
+				sender.privateKey,
+			);
+
+			// other re-encrypts the signed plaintext for the user
+			const { length, nonce, authKey, ciphertext } = parseMetadata(signed);
+			const reencrypted = processPoseidonEncryption(
+				processPoseidonDecryption(
+					ciphertext,
+					authKey,
+					nonce,
+					other.privateKey,
+					length,
+				),
+				publicKey,
+			);
+			const forwarded = ethers.concat(
+				[
+					BigInt(length),
+					reencrypted.nonce,
+					...reencrypted.authKey,
+					...reencrypted.ciphertext,
+				].map((value) => ethers.zeroPadValue(ethers.toBeHex(value), 32)),
+			);
+
+			expect(decryptMetadata(privateKey, forwarded)).to.equal("rent");
+			expect(() =>
+				decryptMetadata(privateKey, forwarded, sender.publicKey),
+			).to.throw(MetadataSignatureError, "does not match the sender");
+		});
+	});
+
 	describe("Cross-function Integration", () => {
 		it("should work with empty string", async () => {
 			const encrypted = encryptMetadata(publicKey, "");
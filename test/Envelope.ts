@@ -0,0 +1,457 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+	ENVELOPE_MAGIC,
+	ENVELOPE_VERSION,
+	InvalidMetadataError,
+	MAX_DECOMPRESSED_SIZE,
+	type MetadataEnvelope,
+	MetadataSignatureError,
+	decodeEnvelope,
+	decryptEnvelope,
+	encodeEnvelope,
+	encryptEnvelope,
+	encryptMetadataBytes,
+	signEnvelope,
+	verifyEnvelopeSignature,
+} from "../src";
+import { brotliCompressor, deflateCompressor } from "../src/node";
+import { User } from "./user";
+
+describe("Metadata Envelope", () => {
+	let user: User;
+
+	const replyTo = ethers.id("transfer");
+
+	before(async () => {
+		const [signer] = await ethers.getSigners();
+		user = new User(signer);
+	});
+
+	describe("encodeEnvelope and decodeEnvelope", () => {
+		const envelopes: MetadataEnvelope[] = [
+			{ content: { type: "text", text: "" } },
+			{ content: { type: "text", text: "Hello, 世界" }, memo: "rent" },
+			{
+				content: { type: "json", value: { amount: 100, items: ["a", "b"] } },
+				invoiceId: "INV-2025-001",
+			},
+			{
+				content: { type: "binary", data: new Uint8Array([0, 0, 1, 0]) },
+				replyTo,
+			},
+			{
+				content: { type: "payment-reference", reference: "RF18539007547034" },
+				memo: "",
+				invoiceId: "42",
+				replyTo,
+			},
+		];
+
+		it("should round-trip every content type and field", async () => {
+			for (const envelope of envelopes) {
+				expect(decodeEnvelope(encodeEnvelope(envelope))).to.deep.equal({
+					version: ENVELOPE_VERSION,
+					...envelope,
+				});
+			}
+		});
+
+		it("should start with the magic byte, version, content type and field count", async () => {
+			const encoded = encodeEnvelope({
+				content: { type: "json", value: null },
+				memo: "a",
+				invoiceId: "b",
+			});
+
+			expect([...encoded.slice(0, 4)]).to.deep.equal([
+				ENVELOPE_MAGIC,
+				ENVELOPE_VERSION,
+				2,
+				2,
+			]);
+		});
+
+		it("should keep unknown fields and content types", async () => {
+			// content type 60, a memo and an unknown field with tag 99
+			const encoded = ethers.concat([
+				new Uint8Array([ENVELOPE_MAGIC, ENVELOPE_VERSION, 60, 2]),
+				new Uint8Array([1, 0, 2]),
+				ethers.toUtf8Bytes("hi"),
+				new Uint8Array([99, 0, 2, 0xaa, 0xbb]),
+				new Uint8Array([1, 2, 3]),
+			]);
+
+			expect(decodeEnvelope(encoded)).to.deep.equal({
+				version: ENVELOPE_VERSION,
+				memo: "hi",
+				unknownFields: [{ tag: 99, value: new Uint8Array([0xaa, 0xbb]) }],
+				content: {
+					type: "unknown",
+					contentType: 60,
+					data: new Uint8Array([1, 2, 3]),
+				},
+			});
+		});
+
+		it("should encode known and unknown fields in tag order", async () => {
+			const envelope: MetadataEnvelope = {
+				content: { type: "text", text: "" },
+				memo: "a",
+				unknownFields: [
+					{ tag: 99, value: new Uint8Array([1]) },
+					{ tag: 0, value: new Uint8Array([2]) },
+				],
+			};
+			const encoded = encodeEnvelope(envelope);
+
+			expect([encoded[4], encoded[8], encoded[12]]).to.deep.equal([0, 1, 99]);
+			expect(decodeEnvelope(encoded).unknownFields).to.deep.equal([
+				{ tag: 0, value: new Uint8Array([2]) },
+				{ tag: 99, value: new Uint8Array([1]) },
+			]);
+		});
+
+		it("should reject duplicated and out of order fields", async () => {
+			const header = new Uint8Array([ENVELOPE_MAGIC, ENVELOPE_VERSION, 1, 2]);
+			const memo = new Uint8Array([1, 0, 1, 0x61]);
+			const unknown = new Uint8Array([99, 0, 1, 0xaa]);
+
+			for (const fields of [
+				[memo, memo],
+				[unknown, unknown],
+				[unknown, memo],
+			]) {
+				expect(() =>
+					decodeEnvelope(ethers.concat([header, ...fields])),
+				).to.throw(InvalidMetadataError, "duplicated or out of order");
+			}
+
+			const signed = encodeEnvelope(
+				signEnvelope(
+					{ content: { type: "text", text: "" } },
+					user.privateKey,
+					user.publicKey,
+				),
+			);
+			signed[3] = 2;
+			expect(() =>
+				decodeEnvelope(ethers.concat([signed.slice(0, 4 + 3 + 160), memo])),
+			).to.throw(InvalidMetadataError, "field 1 is duplicated or out of order");
+			expect(() =>
+				encodeEnvelope({
+					content: { type: "text", text: "" },
+					unknownFields: [
+						{ tag: 99, value: new Uint8Array([1]) },
+						{ tag: 99, value: new Uint8Array([2]) },
+					],
+				}),
+			).to.throw("Invalid envelope field tag: 99");
+		});
+
+		it("should reject more than 255 fields", async () => {
+			// every tag but the 4 known ones, plus memo, invoiceId, replyTo and a signature
+			const unknownFields = Array.from({ length: 256 }, (_, tag) => ({
+				tag,
+				value: new Uint8Array(0),
+			})).filter(({ tag }) => tag === 0 || tag > 4);
+			const envelope: MetadataEnvelope = {
+				content: { type: "text", text: "" },
+				memo: "",
+				invoiceId: "",
+				replyTo,
+				unknownFields,
+			};
+
+			expect(decodeEnvelope(encodeEnvelope(envelope))).to.deep.equal({
+				version: ENVELOPE_VERSION,
+				...envelope,
+			});
+			expect(() =>
+				encodeEnvelope(signEnvelope(envelope, user.privateKey, user.publicKey)),
+			).to.throw("at most 255 fields, got 256");
+		});
+
+		it("should reject payloads without the magic byte", async () => {
+			expect(() => decodeEnvelope(ethers.toUtf8Bytes("plain text"))).to.throw(
+				"missing magic byte",
+			);
+			expect(() => decodeEnvelope(new Uint8Array(0))).to.throw(
+				"missing magic byte",
+			);
+		});
+
+		it("should reject newer versions", async () => {
+			const encoded = encodeEnvelope({ content: { type: "text", text: "" } });
+			encoded[1] = ENVELOPE_VERSION + 1;
+
+			expect(() => decodeEnvelope(encoded)).to.throw(
+				"Unsupported envelope version",
+			);
+		});
+
+		it("should reject truncated fields", async () => {
+			const encoded = encodeEnvelope({
+				content: { type: "text", text: "" },
+				memo: "memo",
+			});
+
+			expect(() =>
+				decodeEnvelope(encoded.slice(0, encoded.length - 1)),
+			).to.throw("truncated field");
+		});
+
+		it("should reject an invalid replyTo", async () => {
+			expect(() =>
+				encodeEnvelope({
+					content: { type: "text", text: "" },
+					replyTo: "0x01",
+				}),
+			).to.throw("expected a transaction hash");
+		});
+	});
+
+	describe("encryptEnvelope and decryptEnvelope", () => {
+		it("should round-trip an encrypted envelope", async () => {
+			const envelope: MetadataEnvelope = {
+				content: { type: "json", value: { invoice: 42 } },
+				memo: "march",
+				replyTo,
+			};
+
+			const encrypted = encryptEnvelope(user.publicKey, envelope);
+			expect(decryptEnvelope(user.privateKey, encrypted)).to.deep.equal({
+				version: ENVELOPE_VERSION,
+				...envelope,
+			});
+		});
+
+		it("should reject binary payloads that are not envelopes", async () => {
+			const encrypted = encryptMetadataBytes(
+				user.publicKey,
+				new Uint8Array([1, 2, 3]),
+			);
+
+			expect(() => decryptEnvelope(user.privateKey, encrypted)).to.throw(
+				"missing magic byte",
+			);
+		});
+	});
+
+	describe("signEnvelope and verifyEnvelopeSignature", () => {
+		let sender: User;
+		let other: User;
+
+		const envelope: MetadataEnvelope = {
+			content: { type: "text", text: "I owe you 100" },
+			invoiceId: "42",
+		};
+
+		before(async () => {
+			const signers = await ethers.getSigners();
+			sender = new User(signers[1]);
+			other = new User(signers[2]);
+		});
+
+		it("should verify a signed envelope", async () => {
+			const signed = signEnvelope(envelope, sender.privateKey, user.publicKey);
+
+			expect(signed.signature?.publicKey).to.deep.equal(sender.publicKey);
+			expect(verifyEnvelopeSignature(signed, user.publicKey, sender.publicKey))
+				.to.be.true;
+			expect(verifyEnvelopeSignature(signed, user.publicKey, other.publicKey))
+				.to.be.false;
+			expect(
+				verifyEnvelopeSignature(envelope, user.publicKey, sender.publicKey),
+			).to.be.false;
+		});
+
+		it("should decrypt and verify a signed envelope", async () => {
+			const encrypted = encryptEnvelope(
+				user.publicKey,
+				signEnvelope(envelope, sender.privateKey, user.publicKey),
+			);
+
+			const decrypted = decryptEnvelope(
+				user.privateKey,
+				encrypted,
+				sender.publicKey,
+			);
+			expect(decrypted.content).to.deep.equal(envelope.content);
+			expect(decrypted.invoiceId).to.equal(envelope.invoiceId);
+		});
+
+		it("should only return verified signatures", async () => {
+			const encrypted = encryptEnvelope(
+				user.publicKey,
+				signEnvelope(envelope, sender.privateKey, user.publicKey),
+			);
+
+			expect(decryptEnvelope(user.privateKey, encrypted)).to.not.have.property(
+				"signature",
+			);
+			expect(
+				decryptEnvelope(user.privateKey, encrypted, sender.publicKey).signature
+					?.publicKey,
+			).to.deep.equal(sender.publicKey);
+		});
+
+		it("should reject unsigned envelopes and other senders", async () => {
+			const unsigned = encryptEnvelope(user.publicKey, envelope);
+			expect(() =>
+				decryptEnvelope(user.privateKey, unsigned, sender.publicKey),
+			).to.throw(MetadataSignatureError, "not signed");
+
+			const signed = encryptEnvelope(
+				user.publicKey,
+				signEnvelope(envelope, other.privateKey, user.publicKey),
+			);
+			expect(() =>
+				decryptEnvelope(user.privateKey, signed, sender.publicKey),
+			).to.throw(MetadataSignatureError, "does not match the sender");
+		});
+
+		it("should reject envelopes forwarded to another recipient", async () => {
+			// signed for other, then re-encrypted for user
+			const signed = signEnvelope(envelope, sender.privateKey, other.publicKey);
+			const forwarded = encryptEnvelope(user.publicKey, signed);
+
+			expect(() =>
+				decryptEnvelope(user.privateKey, forwarded, sender.publicKey),
+			).to.throw(MetadataSignatureError);
+		});
+
+		it("should reject modified envelopes", async () => {
+			const signed = signEnvelope(envelope, sender.privateKey, user.publicKey);
+
+			expect(
+				verifyEnvelopeSignature(
+					{ ...signed, invoiceId: "43" },
+					user.publicKey,
+					sender.publicKey,
+				),
+			).to.be.false;
+			expect(
+				verifyEnvelopeSignature(
+					{ ...signed, content: { type: "text", text: "I owe you 1000" } },
+					user.publicKey,
+					sender.publicKey,
+				),
+			).to.be.false;
+		});
+
+		it("should verify envelopes with fields this client does not know", async () => {
+			const signed = signEnvelope(
+				{
+					...envelope,
+					unknownFields: [{ tag: 99, value: new Uint8Array([1, 2]) }],
+				},
+				sender.privateKey,
+				user.publicKey,
+			);
+
+			const decoded = decodeEnvelope(encodeEnvelope(signed));
+			expect(decoded.unknownFields).to.deep.equal(signed.unknownFields);
+			expect(verifyEnvelopeSignature(decoded, user.publicKey, sender.publicKey))
+				.to.be.true;
+		});
+	});
+
+	describe("compression", () => {
+		const compressors = [deflateCompressor, brotliCompressor];
+
+		// repetitive JSON like the payment memos compresses well
+		const envelope: MetadataEnvelope = {
+			content: {
+				type: "json",
+				value: Array.from({ length: 10 }, (_, i) => ({
+					invoiceId: `INV-2025-${i}`,
+					amount: "125.00",
+					currency: "USD",
+				})),
+			},
+			memo: "april",
+		};
+
+		it("should round-trip compressed envelopes", async () => {
+			for (const compressor of compressors) {
+				const encoded = encodeEnvelope(envelope, compressor);
+
+				expect(encoded.length).to.be.lessThan(encodeEnvelope(envelope).length);
+				expect(decodeEnvelope(encoded, compressors)).to.deep.equal({
+					version: ENVELOPE_VERSION,
+					...envelope,
+				});
+			}
+		});
+
+		it("should flag the compression in the content type byte", async () => {
+			expect(encodeEnvelope(envelope, deflateCompressor)[2]).to.equal(0x42);
+			expect(encodeEnvelope(envelope, brotliCompressor)[2]).to.equal(0x82);
+		});
+
+		it("should not compress bodies that do not get shorter", async () => {
+			const short: MetadataEnvelope = { content: { type: "text", text: "hi" } };
+
+			expect(encodeEnvelope(short, deflateCompressor)).to.deep.equal(
+				encodeEnvelope(short),
+			);
+		});
+
+		it("should reject compressed envelopes without a matching compressor", async () => {
+			const encoded = encodeEnvelope(envelope, brotliCompressor);
+
+			expect(() => decodeEnvelope(encoded)).to.throw(
+				InvalidMetadataError,
+				"pass a brotli compressor",
+			);
+			expect(() => decodeEnvelope(encoded, [deflateCompressor])).to.throw(
+				InvalidMetadataError,
+				"pass a brotli compressor",
+			);
+		});
+
+		it("should reject malformed and oversized bodies", async () => {
+			const encoded = encodeEnvelope(envelope, deflateCompressor);
+			encoded[encoded.length - 1] ^= 0xff;
+			expect(() => decodeEnvelope(encoded, compressors)).to.throw(
+				InvalidMetadataError,
+			);
+
+			const large = encodeEnvelope(
+				{
+					content: {
+						type: "text",
+						text: "a".repeat(MAX_DECOMPRESSED_SIZE + 1),
+					},
+				},
+				deflateCompressor,
+			);
+			expect(() => decodeEnvelope(large, compressors)).to.throw(
+				InvalidMetadataError,
+				"larger than",
+			);
+		});
+
+		it("should encrypt and verify signed compressed envelopes", async () => {
+			const [, signer] = await ethers.getSigners();
+			const sender = new User(signer);
+
+			const encrypted = encryptEnvelope(
+				user.publicKey,
+				signEnvelope(envelope, sender.privateKey, user.publicKey),
+				undefined,
+				false,
+				brotliCompressor,
+			);
+
+			const decrypted = decryptEnvelope(
+				user.privateKey,
+				encrypted,
+				sender.publicKey,
+				compressors,
+			);
+			expect(decrypted.content).to.deep.equal(envelope.content);
+		});
+	});
+});
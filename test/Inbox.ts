@@ -0,0 +1,194 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+	InvalidMetadataError,
+	MetadataInbox,
+	decryptMetadataForRecipient,
+	encryptMetadata,
+	encryptMetadataForRecipients,
+} from "../src";
+import type { EncryptedMetadataHarness } from "../typechain-types/contracts/mocks/EncryptedMetadataHarness";
+import { EncryptedMetadataHarness__factory } from "../typechain-types/factories/contracts/mocks";
+import { User } from "./user";
+
+describe("MetadataInbox", () => {
+	let harness: EncryptedMetadataHarness;
+	let sender: User;
+	let receiver: User;
+	let other: User;
+	let fromBlock: number;
+
+	const send = async (from: User, to: User, message: string) => {
+		const tx = await harness
+			.connect(from.signer)
+			.sendEncryptedMetadata(to.signer.address, message);
+		return tx.wait();
+	};
+
+	const createInbox = (user: User, blockRange = 1) =>
+		new MetadataInbox(
+			ethers.provider,
+			harness.target as string,
+			user.signer.address,
+			user.privateKey,
+			{ fromBlock, blockRange },
+		);
+
+	before(async () => {
+		const signers = await ethers.getSigners();
+		[sender, receiver, other] = signers.slice(1, 4).map((s) => new User(s));
+
+		harness = await new EncryptedMetadataHarness__factory(signers[0]).deploy();
+		await harness.waitForDeployment();
+		fromBlock = await ethers.provider.getBlockNumber();
+
+		await send(sender, receiver, encryptMetadata(receiver.publicKey, "first"));
+		await send(sender, other, encryptMetadata(other.publicKey, "not yours"));
+		await send(
+			sender,
+			receiver,
+			encryptMetadataForRecipients(
+				[sender.publicKey, receiver.publicKey],
+				ethers.toUtf8Bytes("shared"),
+			),
+		);
+		await send(sender, receiver, "0x1234");
+		await send(other, receiver, encryptMetadata(receiver.publicKey, "second"));
+	});
+
+	it("should list and decrypt the messages sent to an address", async () => {
+		const inbox = createInbox(receiver);
+		const found = await inbox.sync();
+
+		expect(found.map((m) => m.content)).to.deep.equal(["first", "second"]);
+		expect(found.map((m) => m.from)).to.deep.equal([
+			sender.signer.address,
+			other.signer.address,
+		]);
+		for (const message of found) {
+			expect(message.to).to.equal(receiver.signer.address);
+			expect(message.messageType).to.equal("MESSAGE");
+			expect(message.operation).to.be.undefined;
+		}
+		expect(inbox.messages).to.deep.equal(found);
+	});
+
+	it("should skip and report messages it can not decrypt", async () => {
+		const inbox = createInbox(receiver);
+		await inbox.sync();
+
+		// the multi-recipient message is not a plain string, the last one is malformed
+		expect(inbox.skipped).to.have.length(2);
+		expect(inbox.skipped[1].encryptedMessage).to.equal("0x1234");
+		for (const { error } of inbox.skipped) {
+			expect(error).to.be.instanceOf(InvalidMetadataError);
+		}
+	});
+
+	it("should not record a page that failed half way", async () => {
+		// the second receipt request fails, after the page skipped both undecryptable messages
+		let receipts = 0;
+		const provider = new Proxy(ethers.provider, {
+			get: (target, property) => {
+				if (property === "getTransactionReceipt") {
+					return async (hash: string) => {
+						receipts += 1;
+						if (receipts === 2) {
+							throw new Error("rate limited");
+						}
+						return target.getTransactionReceipt(hash);
+					};
+				}
+				const value = Reflect.get(target, property);
+				return typeof value === "function" ? value.bind(target) : value;
+			},
+		});
+		const inbox = new MetadataInbox(
+			provider,
+			harness.target as string,
+			receiver.signer.address,
+			receiver.privateKey,
+			{ fromBlock, blockRange: 1000 },
+		);
+
+		await expect(inbox.sync()).to.be.rejectedWith("rate limited");
+		expect(inbox.messages).to.be.empty;
+		expect(inbox.skipped).to.be.empty;
+
+		await inbox.sync();
+		expect(inbox.messages.map((m) => m.content)).to.deep.equal([
+			"first",
+			"second",
+		]);
+		expect(inbox.skipped).to.have.length(2);
+	});
+
+	it("should give the same result for any page size", async () => {
+		const small = createInbox(receiver, 1);
+		const large = createInbox(receiver, 1000);
+
+		expect(await small.sync()).to.deep.equal(await large.sync());
+	});
+
+	it("should scan every page once when syncs overlap", async () => {
+		const inbox = createInbox(receiver);
+		const [first, second] = await Promise.all([inbox.sync(), inbox.sync()]);
+
+		expect(second).to.equal(first);
+		expect(inbox.messages.map((m) => m.content)).to.deep.equal([
+			"first",
+			"second",
+		]);
+		expect(inbox.skipped).to.have.length(2);
+	});
+
+	it("should only scan the new blocks on the next sync", async () => {
+		const inbox = createInbox(receiver, 2);
+		await inbox.sync();
+		expect(inbox.lastScannedBlock).to.equal(
+			await ethers.provider.getBlockNumber(),
+		);
+
+		const receipt = await send(
+			other,
+			receiver,
+			encryptMetadata(receiver.publicKey, "third"),
+		);
+		const found = await inbox.sync();
+
+		expect(found.map((m) => m.content)).to.deep.equal(["third"]);
+		expect(found[0].transactionHash).to.equal(receipt?.hash);
+		expect(inbox.messages.map((m) => m.content)).to.deep.equal([
+			"first",
+			"second",
+			"third",
+		]);
+		expect(await inbox.sync()).to.be.empty;
+	});
+
+	it("should group messages by type", async () => {
+		const inbox = createInbox(receiver);
+		await inbox.sync();
+
+		const groups = inbox.byType();
+		expect(Object.keys(groups)).to.deep.equal(["MESSAGE"]);
+		expect(groups.MESSAGE).to.deep.equal(inbox.messages);
+	});
+
+	it("should list sent messages with a custom decrypt function", async () => {
+		const inbox = new MetadataInbox(
+			ethers.provider,
+			harness.target as string,
+			sender.signer.address,
+			sender.privateKey,
+			{ fromBlock, includeSent: true, decrypt: decryptMetadataForRecipient },
+		);
+		await inbox.sync();
+
+		expect(inbox.messages).to.have.length(1);
+		expect(inbox.messages[0].content).to.deep.equal(
+			ethers.toUtf8Bytes("shared"),
+		);
+		expect(inbox.messages[0].to).to.equal(receiver.signer.address);
+	});
+});
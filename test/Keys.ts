@@ -0,0 +1,74 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+	deriveKeyFromSignature,
+	deriveKeyFromSigner,
+	getKeyDerivationMessage,
+	getKeyPair,
+} from "../src";
+import { User } from "./user";
+
+describe("Key Derivation", () => {
+	const registrarAddress = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+
+	it("should bind the message to the chain ID and the Registrar", async () => {
+		const message = getKeyDerivationMessage(43114n, registrarAddress);
+
+		expect(message).to.contain("Chain ID: 43114");
+		expect(message).to.contain(`Registrar: ${registrarAddress}`);
+		expect(getKeyDerivationMessage(43113n, registrarAddress)).to.not.equal(
+			message,
+		);
+		// addresses are checksummed, so the casing does not change the message
+		expect(
+			getKeyDerivationMessage(43114n, registrarAddress.toLowerCase()),
+		).to.equal(message);
+	});
+
+	it("should derive the same key from the same wallet", async () => {
+		const [signer] = await ethers.getSigners();
+
+		const first = await deriveKeyFromSigner(signer, 1n, registrarAddress);
+		const second = await deriveKeyFromSigner(signer, 1n, registrarAddress);
+
+		expect(second).to.deep.equal(first);
+		expect(getKeyPair(first.privateKey)).to.deep.equal(first);
+	});
+
+	it("should derive different keys for different domains and wallets", async () => {
+		const [signer, anotherSigner] = await ethers.getSigners();
+
+		const key = await deriveKeyFromSigner(signer, 1n, registrarAddress);
+		const otherChain = await deriveKeyFromSigner(signer, 2n, registrarAddress);
+		const otherWallet = await deriveKeyFromSigner(
+			anotherSigner,
+			1n,
+			registrarAddress,
+		);
+
+		expect(otherChain.privateKey).to.not.equal(key.privateKey);
+		expect(otherWallet.privateKey).to.not.equal(key.privateKey);
+	});
+
+	it("should derive the same key for both v encodings", async () => {
+		const [signer] = await ethers.getSigners();
+		const signature = ethers.Signature.from(
+			await signer.signMessage(getKeyDerivationMessage(1n, registrarAddress)),
+		);
+
+		const legacy = deriveKeyFromSignature(signature.serialized);
+		const compact = deriveKeyFromSignature(signature.compactSerialized);
+
+		expect(compact).to.deep.equal(legacy);
+	});
+
+	it("should recover the same user from the signer", async () => {
+		const [signer] = await ethers.getSigners();
+
+		const user = await User.fromSigner(signer, registrarAddress);
+		const recovered = await User.fromSigner(signer, registrarAddress);
+
+		expect(recovered.privateKey).to.equal(user.privateKey);
+		expect(recovered.publicKey).to.deep.equal(user.publicKey);
+	});
+});
@@ -0,0 +1,65 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { decryptKeystore, encryptKeystore } from "../src";
+import { User } from "./user";
+
+describe("Keystore", () => {
+	const registrarAddress = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+	// cheap kdf parameters to keep the tests fast
+	const options = {
+		chainId: 31337n,
+		registrarAddress,
+		scrypt: { n: 2 ** 10, r: 8, p: 1 },
+		pbkdf2Iterations: 1000,
+	};
+
+	let user: User;
+
+	before(async () => {
+		const [signer] = await ethers.getSigners();
+		user = new User(signer);
+	});
+
+	it("should round-trip a private key with scrypt", async () => {
+		const keystore = await encryptKeystore(user.privateKey, "secret", options);
+
+		expect(keystore.crypto.kdf).to.equal("scrypt");
+		expect(keystore.chainId).to.equal("31337");
+		expect(keystore.registrar).to.equal(registrarAddress);
+		expect(keystore.publicKey).to.deep.equal(
+			user.publicKey.map((x) => x.toString()),
+		);
+
+		const keyPair = await decryptKeystore(JSON.stringify(keystore), "secret");
+		expect(keyPair.privateKey).to.equal(user.privateKey);
+		expect(keyPair.formattedPrivateKey).to.equal(user.formattedPrivateKey);
+		expect(keyPair.publicKey).to.deep.equal(user.publicKey);
+	});
+
+	it("should round-trip a private key with pbkdf2", async () => {
+		const keystore = await encryptKeystore(user.privateKey, "secret", {
+			...options,
+			kdf: "pbkdf2",
+		});
+
+		expect(keystore.crypto.kdf).to.equal("pbkdf2");
+		const keyPair = await decryptKeystore(keystore, "secret");
+		expect(keyPair.privateKey).to.equal(user.privateKey);
+	});
+
+	it("should reject a wrong password", async () => {
+		const keystore = await encryptKeystore(user.privateKey, "secret", options);
+
+		await expect(decryptKeystore(keystore, "wrong")).to.be.rejectedWith(
+			"Invalid keystore password",
+		);
+	});
+
+	it("should reject tampered plaintext fields", async () => {
+		const keystore = await encryptKeystore(user.privateKey, "secret", options);
+
+		await expect(
+			decryptKeystore({ ...keystore, chainId: "1" }, "secret"),
+		).to.be.rejectedWith("Invalid keystore password or corrupted keystore");
+	});
+});
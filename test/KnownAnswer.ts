@@ -0,0 +1,277 @@
+import { Base8, mulPointEscalar } from "@zk-kit/baby-jubjub";
+import { expect } from "chai";
+import { ethers, zkit } from "hardhat";
+import { poseidon3 } from "poseidon-lite";
+import {
+	createSeededRandomSource,
+	decryptPoint,
+	deriveKeyFromSignature,
+	encryptMessage,
+	getKeyDerivationMessage,
+	hashEGCT,
+	processPoseidonDecryption,
+	processPoseidonEncryption,
+} from "../src";
+import type { BabyJubJubHarness } from "../typechain-types/contracts/mocks/BabyJubJubHarness";
+import { BabyJubJubHarness__factory } from "../typechain-types/factories/contracts/mocks";
+import { deployLibrary } from "./helpers";
+import vectors from "./vectors/known-answers.json";
+
+// regenerate with scripts/generate-test-vectors.ts, the TS helpers, BabyJubJub.sol and the circuits
+// are all checked against the same vectors so a divergence between them shows up here first
+const toBigInts = (values: string[]) => values.map((value) => BigInt(value));
+
+const keyDerivation = vectors.keyDerivation.map((v) => ({
+	...v,
+	chainId: BigInt(v.chainId),
+	privateKey: BigInt(v.privateKey),
+	formattedPrivateKey: BigInt(v.formattedPrivateKey),
+	publicKey: toBigInts(v.publicKey),
+}));
+
+const elGamal = vectors.elGamal.map((v) => ({
+	seed: BigInt(v.seed),
+	privateKey: BigInt(v.privateKey),
+	publicKey: toBigInts(v.publicKey),
+	message: BigInt(v.message),
+	random: BigInt(v.random),
+	c1: toBigInts(v.c1),
+	c2: toBigInts(v.c2),
+}));
+
+const poseidon = vectors.poseidon.map((v) => ({
+	seed: BigInt(v.seed),
+	privateKey: BigInt(v.privateKey),
+	publicKey: toBigInts(v.publicKey),
+	inputs: toBigInts(v.inputs),
+	nonce: BigInt(v.nonce),
+	encRandom: BigInt(v.encRandom),
+	authKey: toBigInts(v.authKey),
+	ciphertext: toBigInts(v.ciphertext),
+}));
+
+const egctHash = vectors.egctHash.map((v) => ({
+	c1: toBigInts(v.c1),
+	c2: toBigInts(v.c2),
+	hash: BigInt(v.hash),
+}));
+
+const registrationHash = vectors.registrationHash.map((v) => ({
+	chainId: BigInt(v.chainId),
+	formattedPrivateKey: BigInt(v.formattedPrivateKey),
+	address: BigInt(v.address),
+	hash: BigInt(v.hash),
+}));
+
+const toStruct = (point: bigint[]) => ({ x: point[0], y: point[1] });
+
+describe("Known Answer Tests", () => {
+	describe("TypeScript", () => {
+		it("should derive the key pairs", async () => {
+			for (const v of keyDerivation) {
+				const wallet = new ethers.Wallet(v.walletPrivateKey);
+				expect(wallet.address).to.equal(v.wallet);
+
+				const signature = await wallet.signMessage(
+					getKeyDerivationMessage(v.chainId, v.registrar),
+				);
+				expect(signature).to.equal(v.signature);
+
+				const keyPair = deriveKeyFromSignature(signature);
+				expect(keyPair.privateKey).to.equal(v.privateKey);
+				expect(keyPair.formattedPrivateKey).to.equal(v.formattedPrivateKey);
+				expect(keyPair.publicKey).to.deep.equal(v.publicKey);
+			}
+		});
+
+		it("should encrypt and decrypt el-gamal messages", async () => {
+			for (const v of elGamal) {
+				const { cipher, random } = encryptMessage(
+					v.publicKey,
+					v.message,
+					undefined,
+					createSeededRandomSource(v.seed),
+				);
+				expect(random).to.equal(v.random);
+				expect(cipher).to.deep.equal([v.c1, v.c2]);
+
+				expect(decryptPoint(v.privateKey, v.c1, v.c2)).to.deep.equal(
+					mulPointEscalar(Base8, v.message),
+				);
+			}
+		});
+
+		it("should encrypt and decrypt poseidon messages", async () => {
+			for (const v of poseidon) {
+				const { ciphertext, nonce, encRandom, authKey } =
+					processPoseidonEncryption(
+						v.inputs,
+						v.publicKey,
+						createSeededRandomSource(v.seed),
+					);
+				expect(nonce).to.equal(v.nonce);
+				expect(encRandom).to.equal(v.encRandom);
+				expect(authKey).to.deep.equal(v.authKey);
+				expect(ciphertext).to.deep.equal(v.ciphertext);
+
+				expect(
+					processPoseidonDecryption(
+						v.ciphertext,
+						v.authKey,
+						v.nonce,
+						v.privateKey,
+						v.inputs.length,
+					),
+				).to.deep.equal(v.inputs);
+			}
+		});
+
+		it("should hash el-gamal ciphertexts", async () => {
+			for (const v of egctHash) {
+				expect(hashEGCT({ c1: v.c1, c2: v.c2 })).to.equal(v.hash);
+			}
+		});
+
+		it("should compute the registration hashes", async () => {
+			for (const v of registrationHash) {
+				expect(
+					poseidon3([v.chainId, v.formattedPrivateKey, v.address]),
+				).to.equal(v.hash);
+			}
+		});
+	});
+
+	describe("BabyJubJub.sol", () => {
+		let harness: BabyJubJubHarness;
+		let base8: { x: bigint; y: bigint };
+
+		before(async () => {
+			const [owner] = await ethers.getSigners();
+			const babyJubJub = await deployLibrary(owner);
+
+			const factory = new BabyJubJubHarness__factory({
+				"contracts/libraries/BabyJubJub.sol:BabyJubJub": babyJubJub,
+			});
+			harness = await factory.connect(owner).deploy();
+			await harness.waitForDeployment();
+
+			base8 = toStruct(Base8);
+		});
+
+		it("should derive the public keys", async () => {
+			for (const v of keyDerivation) {
+				const publicKey = await harness.scalarMultiply(
+					base8,
+					v.formattedPrivateKey,
+				);
+				expect([publicKey.x, publicKey.y]).to.deep.equal(v.publicKey);
+			}
+		});
+
+		it("should encrypt el-gamal messages", async () => {
+			for (const v of elGamal) {
+				const { c1, c2 } = await harness.encrypt(
+					toStruct(v.publicKey),
+					v.message,
+					v.random,
+				);
+				expect([c1.x, c1.y]).to.deep.equal(v.c1);
+				expect([c2.x, c2.y]).to.deep.equal(v.c2);
+			}
+		});
+
+		it("should derive the poseidon encryption keys", async () => {
+			for (const v of poseidon) {
+				const authKey = await harness.scalarMultiply(base8, v.encRandom);
+				expect([authKey.x, authKey.y]).to.deep.equal(v.authKey);
+
+				const sharedKey = await harness.scalarMultiply(
+					toStruct(v.publicKey),
+					v.encRandom,
+				);
+				expect([sharedKey.x, sharedKey.y]).to.deep.equal(
+					mulPointEscalar(v.publicKey as [bigint, bigint], v.encRandom),
+				);
+			}
+		});
+
+		it("should hash el-gamal ciphertexts", async () => {
+			for (const v of egctHash) {
+				const hash = await harness.hashEGCT({
+					c1: toStruct(v.c1),
+					c2: toStruct(v.c2),
+				});
+				expect(hash).to.equal(v.hash);
+			}
+		});
+	});
+
+	describe("Circuits", () => {
+		it("should derive the public keys", async () => {
+			const circuit = await zkit.getCircuit("CheckPublicKey");
+			for (const v of keyDerivation) {
+				await circuit.calculateWitness({
+					privKey: v.formattedPrivateKey,
+					pubKey: v.publicKey,
+				});
+			}
+		});
+
+		it("should encrypt el-gamal messages", async () => {
+			const circuit = await zkit.getCircuit("CheckReceiverValue");
+			for (const v of elGamal) {
+				await circuit.calculateWitness({
+					receiverValue: v.message,
+					receiverPublicKey: v.publicKey,
+					receiverRandom: v.random,
+					receiverValueC1: v.c1,
+					receiverValueC2: v.c2,
+				});
+			}
+		});
+
+		it("should encrypt poseidon messages", async () => {
+			const circuit = await zkit.getCircuit("CheckPCT");
+			for (const v of poseidon) {
+				await circuit.calculateWitness({
+					publicKey: v.publicKey,
+					pct: v.ciphertext,
+					authKey: v.authKey,
+					nonce: v.nonce,
+					random: v.encRandom,
+					value: v.inputs[0],
+				});
+			}
+		});
+
+		it("should compute the registration hashes", async () => {
+			const circuit = await zkit.getCircuit("CheckRegistrationHash");
+			for (const v of registrationHash) {
+				await circuit.calculateWitness({
+					registrationHash: v.hash,
+					chainID: v.chainId,
+					senderPrivateKey: v.formattedPrivateKey,
+					senderAddress: v.address,
+				});
+			}
+		});
+
+		it("should reject a wrong answer", async () => {
+			const circuit = await zkit.getCircuit("CheckRegistrationHash");
+			const [v] = registrationHash;
+
+			let error: unknown;
+			try {
+				await circuit.calculateWitness({
+					registrationHash: v.hash + 1n,
+					chainID: v.chainId,
+					senderPrivateKey: v.formattedPrivateKey,
+					senderAddress: v.address,
+				});
+			} catch (e) {
+				error = e;
+			}
+			expect(error).to.not.be.undefined;
+		});
+	});
+});
@@ -0,0 +1,159 @@
+import { Fr } from "@zk-kit/baby-jubjub";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+	InvalidPartialDecryptionError,
+	PointNotInSubgroupError,
+	PointNotOnCurveError,
+	combinePartialDecryptions,
+	computePartialDecryption,
+	processPoseidonEncryption,
+	splitAuditorKey,
+	thresholdDecryptPCT,
+	verifyPartialDecryption,
+} from "../src";
+import { AUDITOR_SECRET_KEY, User } from "./user";
+
+describe("Threshold Auditor Key", () => {
+	// on the curve but of order 2
+	const lowOrder = [0n, Fr.e(-1n)];
+	let auditor: User;
+
+	before(async () => {
+		const [signer] = await ethers.getSigners();
+		auditor = new User(signer, AUDITOR_SECRET_KEY);
+	});
+
+	const encryptForAuditor = (amount: bigint) => {
+		const { ciphertext, authKey, nonce } = processPoseidonEncryption(
+			[amount],
+			auditor.publicKey,
+		);
+		return [...ciphertext, ...authKey, nonce];
+	};
+
+	it("should keep the auditor public key", async () => {
+		const { publicKey, shares, verificationKeys } = splitAuditorKey(
+			auditor.privateKey,
+			3,
+			5,
+		);
+
+		expect(publicKey).to.deep.equal(auditor.publicKey);
+		expect(shares.map(({ index }) => index)).to.deep.equal([1, 2, 3, 4, 5]);
+		expect(verificationKeys.map(({ index }) => index)).to.deep.equal([
+			1, 2, 3, 4, 5,
+		]);
+	});
+
+	it("should decrypt auditor PCTs with any threshold of shares", async () => {
+		const { shares, verificationKeys } = splitAuditorKey(
+			auditor.privateKey,
+			3,
+			5,
+		);
+		const pct = encryptForAuditor(1000n);
+		const authKey = pct.slice(4, 6);
+
+		for (const subset of [
+			[0, 1, 2],
+			[1, 3, 4],
+			[4, 0, 2, 3],
+		]) {
+			const partials = subset.map((i) =>
+				computePartialDecryption(shares[i], authKey),
+			);
+			expect(
+				thresholdDecryptPCT(pct, partials, verificationKeys),
+			).to.deep.equal([1000n]);
+		}
+	});
+
+	it("should not decrypt with fewer shares than the threshold", async () => {
+		const { shares, verificationKeys } = splitAuditorKey(
+			auditor.privateKey,
+			3,
+			5,
+		);
+		const pct = encryptForAuditor(1000n);
+		const partials = shares
+			.slice(0, 2)
+			.map((share) => computePartialDecryption(share, pct.slice(4, 6)));
+
+		expect(() =>
+			thresholdDecryptPCT(pct, partials, verificationKeys),
+		).to.throw();
+	});
+
+	it("should trace invalid partial decryptions to their share holder", async () => {
+		const { shares, verificationKeys } = splitAuditorKey(
+			auditor.privateKey,
+			2,
+			3,
+		);
+		const pct = encryptForAuditor(1000n);
+		const authKey = pct.slice(4, 6);
+		const [first, second] = shares.map((share) =>
+			computePartialDecryption(share, authKey),
+		);
+
+		expect(() =>
+			verifyPartialDecryption(first, authKey, verificationKeys),
+		).to.not.throw();
+
+		// a partial computed with another secret, e.g. a holder sending garbage
+		const forged = { ...second, point: first.point };
+		expect(() => thresholdDecryptPCT(pct, [first, forged], verificationKeys))
+			.to.throw(InvalidPartialDecryptionError, "share 2")
+			.with.property("index", 2);
+
+		// a proof for another PCT
+		const other = computePartialDecryption(
+			shares[1],
+			encryptForAuditor(1n).slice(4, 6),
+		);
+		expect(() =>
+			thresholdDecryptPCT(pct, [first, other], verificationKeys),
+		).to.throw(InvalidPartialDecryptionError, "invalid proof");
+
+		// a point outside the subgroup
+		const outside = { ...second, point: lowOrder };
+		expect(() =>
+			thresholdDecryptPCT(pct, [first, outside], verificationKeys),
+		).to.throw(InvalidPartialDecryptionError, "not in the BabyJubJub");
+
+		// a share the dealer never published
+		expect(() =>
+			thresholdDecryptPCT(pct, [first, second], verificationKeys.slice(0, 1)),
+		).to.throw(InvalidPartialDecryptionError, "unknown share index");
+	});
+
+	it("should reject invalid parameters", async () => {
+		expect(() => splitAuditorKey(auditor.privateKey, 4, 3)).to.throw(
+			"Invalid threshold",
+		);
+		expect(() => splitAuditorKey(auditor.privateKey, 0, 3)).to.throw(
+			"Invalid threshold",
+		);
+
+		const { shares, verificationKeys } = splitAuditorKey(
+			auditor.privateKey,
+			2,
+			3,
+		);
+		const authKey = auditor.publicKey;
+		const partial = computePartialDecryption(shares[0], authKey);
+		expect(() =>
+			combinePartialDecryptions([partial, partial], authKey, verificationKeys),
+		).to.throw("Duplicate");
+		expect(() =>
+			combinePartialDecryptions([], authKey, verificationKeys),
+		).to.throw("No partial decryptions");
+		expect(() =>
+			combinePartialDecryptions([partial], lowOrder, verificationKeys),
+		).to.throw(PointNotInSubgroupError, "authKey");
+		expect(() =>
+			verifyPartialDecryption(partial, [1n, 2n], verificationKeys),
+		).to.throw(PointNotOnCurveError, "authKey");
+	});
+});
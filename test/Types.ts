@@ -0,0 +1,97 @@
+import { Base8, mulPointEscalar } from "@zk-kit/baby-jubjub";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+	BabyJubPublicKey,
+	ElGamalCiphertext,
+	PoseidonCiphertext,
+	encryptMessage,
+	processPoseidonEncryption,
+} from "../src";
+import { User } from "./user";
+
+describe("Typed Ciphertexts", () => {
+	let user: User;
+
+	before(async () => {
+		const [signer] = await ethers.getSigners();
+		user = new User(signer);
+	});
+
+	describe("BabyJubPublicKey", () => {
+		it("should convert from uint256[2] and Point structs", async () => {
+			const fromArray = BabyJubPublicKey.from(user.publicKey);
+			const fromStruct = BabyJubPublicKey.from({
+				x: user.publicKey[0],
+				y: user.publicKey[1],
+			});
+
+			expect(fromArray.toArray()).to.deep.equal(user.publicKey);
+			expect(fromStruct.toStruct()).to.deep.equal(fromArray.toStruct());
+			expect(fromArray.isZero()).to.be.false;
+			expect(BabyJubPublicKey.from([0n, 0n]).isZero()).to.be.true;
+		});
+
+		it("should reject keys with the wrong length", async () => {
+			expect(() => BabyJubPublicKey.from([1n, 2n, 3n])).to.throw(
+				"expected 2 elements",
+			);
+		});
+	});
+
+	describe("ElGamalCiphertext", () => {
+		it("should convert between uint256[4], EGCT structs and tuples", async () => {
+			const { cipher } = encryptMessage(user.publicKey, 10n);
+			const ciphertext = new ElGamalCiphertext(cipher[0], cipher[1]);
+
+			expect(ElGamalCiphertext.fromArray(ciphertext.toArray())).to.deep.equal(
+				ciphertext,
+			);
+			expect(ElGamalCiphertext.fromStruct(ciphertext.toStruct())).to.deep.equal(
+				ciphertext,
+			);
+			expect(ciphertext.toTuple()).to.deep.equal(cipher);
+			expect(ciphertext.decrypt(user.privateKey)).to.deep.equal(
+				mulPointEscalar(Base8, 10n),
+			);
+		});
+
+		it("should reject ciphertexts with the wrong length", async () => {
+			expect(() => ElGamalCiphertext.fromArray([1n, 2n, 3n])).to.throw(
+				"expected 4 elements",
+			);
+			expect(() => new ElGamalCiphertext([1n], [2n, 3n])).to.throw(
+				"expected 2 elements",
+			);
+		});
+	});
+
+	describe("PoseidonCiphertext", () => {
+		it("should convert from uint256[7] and decrypt", async () => {
+			const { ciphertext, authKey, nonce } = processPoseidonEncryption(
+				[500n],
+				user.publicKey,
+			);
+			const values = [...ciphertext, ...authKey, nonce];
+
+			const pct = PoseidonCiphertext.fromArray(values);
+			expect(pct.ciphertext).to.deep.equal(ciphertext);
+			expect(pct.authKey).to.deep.equal(authKey);
+			expect(pct.nonce).to.equal(nonce);
+			expect(pct.toArray()).to.deep.equal(values);
+			expect(pct.isEmpty()).to.be.false;
+			expect(pct.decrypt(user.privateKey)).to.deep.equal([500n]);
+		});
+
+		it("should detect empty PCTs", async () => {
+			expect(PoseidonCiphertext.fromArray(Array(7).fill(0n)).isEmpty()).to.be
+				.true;
+		});
+
+		it("should reject PCTs with the wrong length", async () => {
+			expect(() => PoseidonCiphertext.fromArray(Array(6).fill(0n))).to.throw(
+				"expected 7 elements",
+			);
+		});
+	});
+});
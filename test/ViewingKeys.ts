@@ -0,0 +1,204 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+	InvalidMetadataError,
+	UndisclosedCiphertextError,
+	ViewOnlyAccount,
+	addCiphertexts,
+	encryptEnvelope,
+	encryptMessage,
+	encryptMetadata,
+	encryptMetadataBytes,
+	encryptMetadataForRecipients,
+	processPoseidonEncryption,
+} from "../src";
+import { User } from "./user";
+
+describe("Viewing Keys", () => {
+	const registrarAddress = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+	let user: User;
+
+	const encryptPCT = (amount: bigint) => {
+		const { ciphertext, authKey, nonce } = processPoseidonEncryption(
+			[amount],
+			user.publicKey,
+		);
+		return [...ciphertext, ...authKey, nonce];
+	};
+
+	before(async () => {
+		const [signer] = await ethers.getSigners();
+		user = new User(signer);
+	});
+
+	it("should describe the account", async () => {
+		const bundle = await user.exportViewingKey(registrarAddress, {
+			pcts: [encryptPCT(1n)],
+		});
+		const account = ViewOnlyAccount.fromViewingKey(JSON.stringify(bundle));
+
+		expect(account.address).to.equal(user.signer.address);
+		expect(account.registrar).to.equal(registrarAddress);
+		expect(account.publicKey).to.deep.equal(user.publicKey);
+		expect(account.toViewingKey()).to.deep.equal(bundle);
+	});
+
+	it("should decrypt disclosed balance and amount PCTs", async () => {
+		const balancePCT = encryptPCT(100n);
+		const amountPCTs = [
+			{ pct: encryptPCT(20n), index: 1n },
+			{ pct: encryptPCT(3n), index: 2n },
+		];
+		const account = ViewOnlyAccount.fromViewingKey(
+			await user.exportViewingKey(registrarAddress, {
+				pcts: [balancePCT, ...amountPCTs.map(({ pct }) => pct)],
+			}),
+		);
+
+		expect(account.decryptBalancePCT(balancePCT)).to.equal(100n);
+		expect(account.decryptBalancePCT(Array(7).fill(0n))).to.equal(0n);
+		expect(account.decryptAmountPCTs(amountPCTs)).to.deep.equal([20n, 3n]);
+		expect(account.getBalance(balancePCT, amountPCTs)).to.equal(123n);
+	});
+
+	it("should decrypt the disclosed El-Gamal balance", async () => {
+		const [c1, c2] = addCiphertexts(
+			encryptMessage(user.publicKey, 100n).cipher,
+			encryptMessage(user.publicKey, 23n).cipher,
+		);
+		const eGCT = { c1: { x: c1[0], y: c1[1] }, c2: { x: c2[0], y: c2[1] } };
+		const uninitialized = { c1: [0n, 0n], c2: [0n, 0n] };
+		const account = ViewOnlyAccount.fromViewingKey(
+			await user.exportViewingKey(registrarAddress, {
+				eGCTs: [eGCT, uninitialized],
+			}),
+		);
+
+		expect(
+			account.decryptEncryptedBalance(eGCT, { maxValue: 2n ** 16n }),
+		).to.equal(123n);
+		expect(account.decryptEncryptedBalance(uninitialized)).to.equal(0n);
+	});
+
+	it("should decrypt disclosed metadata", async () => {
+		const metadata = encryptMetadata(user.publicKey, "invoice #42");
+		const invoiceHash = ethers.id("invoice #42");
+		const binary = encryptMetadataBytes(user.publicKey, invoiceHash);
+		const envelope = encryptEnvelope(user.publicKey, {
+			content: { type: "text", text: "rent" },
+			invoiceId: "42",
+		});
+		const account = ViewOnlyAccount.fromViewingKey(
+			await user.exportViewingKey(registrarAddress, {
+				messages: [metadata, binary, envelope],
+			}),
+		);
+
+		expect(account.decryptMetadata(metadata)).to.equal("invoice #42");
+		expect(ethers.hexlify(account.decryptMetadataBytes(binary))).to.equal(
+			invoiceHash,
+		);
+		expect(account.decryptEnvelope(envelope)).to.deep.equal({
+			version: 1,
+			content: { type: "text", text: "rent" },
+			invoiceId: "42",
+		});
+	});
+
+	it("should not decrypt ciphertexts that were not disclosed", async () => {
+		const account = ViewOnlyAccount.fromViewingKey(
+			await user.exportViewingKey(registrarAddress, {
+				pcts: [encryptPCT(100n)],
+			}),
+		);
+		const [c1, c2] = encryptMessage(user.publicKey, 5n).cipher;
+
+		expect(() => account.decryptBalancePCT(encryptPCT(100n))).to.throw(
+			UndisclosedCiphertextError,
+		);
+		expect(() => account.decryptEncryptedBalance({ c1, c2 })).to.throw(
+			UndisclosedCiphertextError,
+		);
+		expect(() =>
+			account.decryptMetadata(encryptMetadata(user.publicKey, "salary")),
+		).to.throw(UndisclosedCiphertextError);
+	});
+
+	it("should reject multi-recipient metadata with a clear error", async () => {
+		const [, signer] = await ethers.getSigners();
+		const message = encryptMetadataForRecipients(
+			[user.publicKey, new User(signer).publicKey],
+			ethers.toUtf8Bytes("shared"),
+		);
+		const reason =
+			"multi-recipient messages can not be read with a viewing key";
+
+		await expect(
+			user.exportViewingKey(registrarAddress, { messages: [message] }),
+		).to.be.rejectedWith(InvalidMetadataError, reason);
+
+		const account = ViewOnlyAccount.fromViewingKey(
+			await user.exportViewingKey(registrarAddress, {
+				pcts: [encryptPCT(1n)],
+			}),
+		);
+		expect(() => account.decryptMetadataBytes(message)).to.throw(
+			InvalidMetadataError,
+			reason,
+		);
+		expect(() => account.decryptEnvelope(message)).to.throw(
+			InvalidMetadataError,
+			reason,
+		);
+	});
+
+	it("should not contain the key or a signer", async () => {
+		const bundle = await user.exportViewingKey(registrarAddress, {
+			pcts: [encryptPCT(100n)],
+		});
+		const account = ViewOnlyAccount.fromViewingKey(bundle);
+
+		expect(account).to.not.have.property("privateKey");
+		expect(account).to.not.have.property("formattedPrivateKey");
+		expect(account).to.not.have.property("signer");
+		expect(JSON.stringify(bundle))
+			.to.contain(account.address)
+			.and.not.contain(user.privateKey.toString())
+			.and.not.contain(user.formattedPrivateKey.toString());
+	});
+
+	it("should reject shares that do not match the public key", async () => {
+		const bundle = await user.exportViewingKey(registrarAddress, {
+			pcts: [encryptPCT(100n)],
+		});
+		const other = new User(user.signer);
+
+		expect(() =>
+			ViewOnlyAccount.fromViewingKey({
+				...bundle,
+				publicKey: [
+					other.publicKey[0].toString(),
+					other.publicKey[1].toString(),
+				],
+			}),
+		).to.throw("does not match the public key");
+
+		// a share of another ciphertext, e.g. to make the accountant read a wrong amount
+		const [share] = bundle.shares;
+		const [forged] = (
+			await user.exportViewingKey(registrarAddress, {
+				pcts: [encryptPCT(1n)],
+			})
+		).shares;
+		expect(() =>
+			ViewOnlyAccount.fromViewingKey({
+				...bundle,
+				shares: [{ ...share, sharedKey: forged.sharedKey }],
+			}),
+		).to.throw("does not match the public key");
+
+		expect(() =>
+			ViewOnlyAccount.fromViewingKey({ ...bundle, version: 1 }),
+		).to.throw("Unsupported viewing key version");
+	});
+});
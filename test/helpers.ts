@@ -13,7 +13,11 @@ import type {
 	TransferCircuit,
 	WithdrawCircuit,
 } from "../generated-types/zkit";
-import { processPoseidonDecryption, processPoseidonEncryption } from "../src";
+import {
+	ElGamalCiphertext,
+	PoseidonCiphertext,
+	processPoseidonEncryption,
+} from "../src";
 import { decryptPoint, encryptMessage } from "../src/jub/jub";
 import type { AmountPCTStructOutput } from "../typechain-types/contracts/EncryptedERC";
 import { BabyJubJub__factory } from "../typechain-types/factories/contracts/libraries";
@@ -237,14 +241,17 @@ export const privateBurn = async (
 	const circuit = await zkit.getCircuit("BurnCircuit");
 	const burnCircuit = circuit as unknown as BurnCircuit;
 
+	const senderBalanceCiphertext =
+		ElGamalCiphertext.fromArray(userEncryptedBalance);
+
 	// prepare circuit inputs
 	const input = {
 		ValueToBurn: amount,
 		SenderPrivateKey: user.formattedPrivateKey,
 		SenderPublicKey: user.publicKey,
 		SenderBalance: userBalance,
-		SenderBalanceC1: userEncryptedBalance.slice(0, 2),
-		SenderBalanceC2: userEncryptedBalance.slice(2, 4),
+		SenderBalanceC1: senderBalanceCiphertext.c1,
+		SenderBalanceC2: senderBalanceCiphertext.c2,
 		SenderVTBC1: encryptedBurnAmount[0],
 		SenderVTBC2: encryptedBurnAmount[1],
 		AuditorPublicKey: auditorPublicKey,
@@ -326,13 +333,17 @@ export const privateTransfer = async (
 	const circuit = await zkit.getCircuit("TransferCircuit");
 	const transferCircuit = circuit as unknown as TransferCircuit;
 
+	const senderBalanceCiphertext = ElGamalCiphertext.fromArray(
+		senderEncryptedBalance,
+	);
+
 	const input = {
 		ValueToTransfer: transferAmount,
 		SenderPrivateKey: sender.formattedPrivateKey,
 		SenderPublicKey: sender.publicKey,
 		SenderBalance: senderBalance,
-		SenderBalanceC1: senderEncryptedBalance.slice(0, 2),
-		SenderBalanceC2: senderEncryptedBalance.slice(2, 4),
+		SenderBalanceC1: senderBalanceCiphertext.c1,
+		SenderBalanceC2: senderBalanceCiphertext.c2,
 		SenderVTTC1: encryptedAmountSender[0],
 		SenderVTTC2: encryptedAmountSender[1],
 		ReceiverPublicKey: receiverPublicKey,
@@ -373,14 +384,7 @@ export const decryptPCT = async (
 	length = 1,
 ) => {
 	// extract the ciphertext, authKey, and nonce from the pct
-	const ciphertext = pct.slice(0, 4);
-	const authKey = pct.slice(4, 6);
-	const nonce = pct[6];
-
-	const decrypted = processPoseidonDecryption(
-		ciphertext,
-		authKey,
-		nonce,
+	const decrypted = PoseidonCiphertext.fromArray(pct).decrypt(
 		privateKey,
 		length,
 	);
@@ -426,13 +430,16 @@ export const withdraw = async (
 		authKey: auditorAuthKey,
 	} = processPoseidonEncryption([amount], auditorPublicKey);
 
+	const senderBalanceCiphertext =
+		ElGamalCiphertext.fromArray(userEncryptedBalance);
+
 	const input = {
 		ValueToWithdraw: amount,
 		SenderPrivateKey: user.formattedPrivateKey,
 		SenderPublicKey: userPublicKey,
 		SenderBalance: userBalance,
-		SenderBalanceC1: userEncryptedBalance.slice(0, 2),
-		SenderBalanceC2: userEncryptedBalance.slice(2, 4),
+		SenderBalanceC1: senderBalanceCiphertext.c1,
+		SenderBalanceC2: senderBalanceCiphertext.c2,
 		AuditorPublicKey: auditorPublicKey,
 		AuditorPCT: auditorCiphertext,
 		AuditorPCTAuthKey: auditorAuthKey,
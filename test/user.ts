@@ -2,6 +2,11 @@ import type { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/dist/src
 import { Base8, mulPointEscalar, subOrder } from "@zk-kit/baby-jubjub";
 import { formatPrivKeyForBabyJub, genPrivKey, hash2 } from "maci-crypto";
 import { poseidon3 } from "poseidon-lite";
+import {
+	type CreateViewingKeyOptions,
+	createViewingKey,
+	deriveKeyFromSigner,
+} from "../src";
 
 export const AUDITOR_SECRET_KEY =
 	12847321338015819245445518144028570538408927360876901642159872299055545378037n;
@@ -12,10 +17,9 @@ export class User {
 	publicKey: bigint[];
 	signer: SignerWithAddress;
 
-	constructor(signer: SignerWithAddress) {
+	constructor(signer: SignerWithAddress, privateKey = genPrivKey()) {
 		this.signer = signer;
-		// gen private key
-		this.privateKey = genPrivKey();
+		this.privateKey = privateKey;
 		// format private key for baby jubjub
 		this.formattedPrivateKey =
 			formatPrivKeyForBabyJub(this.privateKey) % subOrder;
@@ -25,6 +29,46 @@ export class User {
 		);
 	}
 
+	/**
+	 * Creates a user whose key is derived from a signature of the signer, so it can be recovered later
+	 * @param signer Hardhat signer of the user
+	 * @param registrarAddress Address of the Registrar contract
+	 * @returns The user with the derived key
+	 */
+	static async fromSigner(signer: SignerWithAddress, registrarAddress: string) {
+		const { chainId } = await signer.provider.getNetwork();
+		const { privateKey } = await deriveKeyFromSigner(
+			signer,
+			chainId,
+			registrarAddress,
+		);
+
+		return new User(signer, privateKey);
+	}
+
+	/**
+	 * Exports a viewing key of the user, it decrypts the disclosed balances and metadata but can not spend
+	 * it can not read anything received after the export, nor multi-recipient metadata
+	 * @param registrarAddress Address of the Registrar contract
+	 * @param disclosed PCTs, El-Gamal balances and metadata to disclose
+	 * @returns Viewing key bundle for ViewOnlyAccount
+	 */
+	async exportViewingKey(
+		registrarAddress: string,
+		disclosed: Pick<
+			CreateViewingKeyOptions,
+			"pcts" | "eGCTs" | "messages"
+		> = {},
+	) {
+		const { chainId } = await this.signer.provider.getNetwork();
+		return createViewingKey(this.privateKey, {
+			address: this.signer.address,
+			chainId,
+			registrarAddress,
+			...disclosed,
+		});
+	}
+
 	get address() {
 		const address = hash2(this.publicKey);
 		return address;
@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+// runs the src tests as ESM in node, without a DOM, like a web wallet bundling src would
+export default defineConfig({
+	test: {
+		dir: "src",
+		environment: "node",
+	},
+});